@@ -5,6 +5,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Game from "./pages/Game";
+import Replay from "./pages/Replay";
+import Analysis from "./pages/Analysis";
+import History from "./pages/History";
+import Editor from "./pages/Editor";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,6 +21,10 @@ const App = () => (
       <Routes>
         <Route path="/" element={<Index />} />
         <Route path="/game" element={<Game />} />
+        <Route path="/replay" element={<Replay />} />
+        <Route path="/analysis" element={<Analysis />} />
+        <Route path="/history" element={<History />} />
+        <Route path="/editor" element={<Editor />} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -0,0 +1,72 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+
+interface AdjournDialogProps {
+  open: boolean;
+  // Player on move, who may seal their next move; null when they cannot
+  sealingPlayer: string | null;
+  onAdjourn: () => void;
+  onSeal: () => void;
+  onCancel: () => void;
+}
+
+// Confirms putting the game aside, optionally with a sealed move
+const AdjournDialog: React.FC<AdjournDialogProps> = ({
+  open,
+  sealingPlayer,
+  onAdjourn,
+  onSeal,
+  onCancel
+}) => {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent
+        onEscapeKeyDown={onCancel}
+        className="bg-gray-900 border-gray-700 text-gray-200"
+      >
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-white">Adjourn game</AlertDialogTitle>
+          <AlertDialogDescription className="text-gray-300">
+            The game and both clocks are saved on this device and can be resumed from the home screen.
+            {sealingPlayer && ` ${sealingPlayer} may seal their next move: it stays hidden and is played when the game resumes.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel
+            onClick={onCancel}
+            className="bg-gray-800 border-gray-600 text-gray-200 hover:bg-gray-700 hover:text-white"
+          >
+            Cancel
+          </AlertDialogCancel>
+          {sealingPlayer && (
+            <Button
+              onClick={onSeal}
+              variant="outline"
+              className="bg-gray-800 border-gray-600 text-gray-200 hover:bg-gray-700 hover:text-white"
+            >
+              Seal a move
+            </Button>
+          )}
+          <AlertDialogAction
+            onClick={onAdjourn}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+          >
+            Adjourn
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default AdjournDialog;
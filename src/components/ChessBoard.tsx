@@ -1,15 +1,20 @@
 
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { Chess, Square } from 'chess.js';
 import { Chessboard } from 'react-chessboard';
 import { toast } from 'sonner';
+import PromotionDialog, { PromotionPiece } from '@/components/PromotionDialog';
+import { MoveInputMode } from '@/lib/settings';
 
 interface ChessBoardProps {
   game: Chess;
-  onMove: (from: string, to: string) => boolean;
+  onMove: (from: string, to: string, promotion?: PromotionPiece) => boolean;
   isFlipped: boolean;
   canMove: boolean;
   currentPlayerColor: 'white' | 'black';
+  moveInput?: MoveInputMode;
+  // Shows the position without allowing any interaction
+  readOnly?: boolean;
 }
 
 const ChessBoard: React.FC<ChessBoardProps> = ({
@@ -17,10 +22,13 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
   onMove,
   isFlipped,
   canMove,
-  currentPlayerColor
+  currentPlayerColor,
+  moveInput = 'both',
+  readOnly = false
 }) => {
   const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
   const [validMoves, setValidMoves] = useState<Square[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square } | null>(null);
 
   // Get all valid moves for the selected piece
   const getValidMovesForSquare = useCallback((square: Square): Square[] => {
@@ -28,8 +36,46 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
     return moves.map(move => move.to as Square);
   }, [game]);
 
+  // Check whether moving from one square to another promotes a pawn
+  const isPromotionMove = useCallback((from: Square, to: Square): boolean => {
+    const moves = game.moves({ square: from, verbose: true });
+    return moves.some(move => move.to === to && move.flags.includes('p'));
+  }, [game]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedSquare(null);
+    setValidMoves([]);
+  }, []);
+
+  // A selection made on another position no longer applies
+  useEffect(() => {
+    clearSelection();
+    setPendingPromotion(null);
+  }, [game, clearSelection]);
+
+  // Complete a pending promotion with the chosen piece
+  const onPromotionSelect = useCallback((piece: PromotionPiece) => {
+    if (!pendingPromotion) return;
+
+    const moveSuccessful = onMove(pendingPromotion.from, pendingPromotion.to, piece);
+    setPendingPromotion(null);
+    if (moveSuccessful) {
+      clearSelection();
+    }
+  }, [pendingPromotion, onMove, clearSelection]);
+
+  const allowClick = !readOnly && moveInput !== 'drag';
+  const allowDrag = !readOnly && moveInput !== 'click';
+
+  const isOwnPiece = useCallback((pieceColor: 'w' | 'b') => {
+    return (pieceColor === 'w' && currentPlayerColor === 'white') ||
+      (pieceColor === 'b' && currentPlayerColor === 'black');
+  }, [currentPlayerColor]);
+
   // Handle square click
   const onSquareClick = useCallback((square: Square) => {
+    if (!allowClick) return;
+
     if (!canMove) {
       toast.error('Not your turn');
       return;
@@ -39,18 +85,21 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
     
     // If clicking on a valid move square, make the move
     if (selectedSquare && validMoves.includes(square)) {
+      // Promotions wait for the player to pick a piece
+      if (isPromotionMove(selectedSquare, square)) {
+        setPendingPromotion({ from: selectedSquare, to: square });
+        return;
+      }
+
       const moveSuccessful = onMove(selectedSquare, square);
       if (moveSuccessful) {
-        setSelectedSquare(null);
-        setValidMoves([]);
+        clearSelection();
       }
       return;
     }
 
     // If clicking on a piece of the current player's color
-    if (piece && 
-        ((piece.color === 'w' && currentPlayerColor === 'white') || 
-         (piece.color === 'b' && currentPlayerColor === 'black'))) {
+    if (piece && isOwnPiece(piece.color)) {
       setSelectedSquare(square);
       const moves = getValidMovesForSquare(square);
       setValidMoves(moves);
@@ -67,7 +116,36 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
       setSelectedSquare(null);
       setValidMoves([]);
     }
-  }, [selectedSquare, validMoves, canMove, currentPlayerColor, game, onMove]);
+  }, [allowClick, selectedSquare, validMoves, canMove, currentPlayerColor, game, onMove, isOwnPiece, isPromotionMove, clearSelection, getValidMovesForSquare]);
+
+  // Only the side to move may pick up its own pieces
+  const isDraggablePiece = useCallback(({ piece }: { piece: string }) => {
+    return canMove && isOwnPiece(piece[0] as 'w' | 'b');
+  }, [canMove, isOwnPiece]);
+
+  // Highlight legal targets while a piece is being dragged
+  const onPieceDragBegin = useCallback((_piece: string, sourceSquare: Square) => {
+    setSelectedSquare(sourceSquare);
+    setValidMoves(getValidMovesForSquare(sourceSquare));
+  }, [getValidMovesForSquare]);
+
+  // Returning false snaps the piece back to its source square
+  const onPieceDrop = useCallback((sourceSquare: Square, targetSquare: Square) => {
+    const legalTargets = getValidMovesForSquare(sourceSquare);
+    if (!legalTargets.includes(targetSquare)) {
+      clearSelection();
+      return false;
+    }
+
+    if (isPromotionMove(sourceSquare, targetSquare)) {
+      setPendingPromotion({ from: sourceSquare, to: targetSquare });
+      return false;
+    }
+
+    const moveSuccessful = onMove(sourceSquare, targetSquare);
+    clearSelection();
+    return moveSuccessful;
+  }, [getValidMovesForSquare, isPromotionMove, onMove, clearSelection]);
 
   // Create custom square styles for highlighting
   const customSquareStyles = useMemo(() => {
@@ -84,7 +162,13 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
     // Highlight valid move squares with dots
     validMoves.forEach(square => {
       const piece = game.get(square);
-      if (piece) {
+      if (piece && selectedSquare && piece.color === game.get(selectedSquare)?.color) {
+        // Chess960 castling: the king moves onto its own rook
+        styles[square] = {
+          backgroundColor: 'rgba(59, 130, 246, 0.3)',
+          boxShadow: 'inset 0 0 0 3px #3b82f6'
+        };
+      } else if (piece) {
         // Target square with enemy piece - red border
         styles[square] = {
           backgroundColor: 'rgba(255, 0, 0, 0.3)',
@@ -110,7 +194,11 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
         position={game.fen()}
         onSquareClick={onSquareClick}
         boardOrientation={isFlipped ? 'black' : 'white'}
-        arePiecesDraggable={false}
+        arePiecesDraggable={allowDrag}
+        isDraggablePiece={isDraggablePiece}
+        onPieceDragBegin={onPieceDragBegin}
+        onPieceDrop={onPieceDrop}
+        onPromotionCheck={() => false}
         customSquareStyles={customSquareStyles}
         customBoardStyle={{
           borderRadius: '12px',
@@ -120,6 +208,16 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
         customLightSquareStyle={{ backgroundColor: '#f3f4f6' }}
         animationDuration={200}
       />
+
+      {pendingPromotion && (
+        <PromotionDialog
+          square={pendingPromotion.to}
+          color={currentPlayerColor}
+          isFlipped={isFlipped}
+          onSelect={onPromotionSelect}
+          onCancel={() => setPendingPromotion(null)}
+        />
+      )}
       
       {selectedSquare && (
         <div className="absolute -bottom-8 left-0 right-0 text-center">
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Cpu } from 'lucide-react';
+import { UciInfo } from '@/lib/engine/uci';
+import { formatLine, formatScore, pvToSan, whiteScore } from '@/lib/engine/evaluation';
+
+const LINE_COUNTS = [1, 2, 3, 4, 5];
+
+interface EngineAnalysisProps {
+  // Position being analysed
+  fen: string;
+  // Latest info for each line, best first
+  lines: UciInfo[];
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  lineCount: number;
+  onLineCountChange: (count: number) => void;
+  engineName?: string;
+}
+
+const EngineAnalysis: React.FC<EngineAnalysisProps> = ({
+  fen,
+  lines,
+  enabled,
+  onEnabledChange,
+  lineCount,
+  onLineCountChange,
+  engineName
+}) => {
+  const turn = fen.split(' ')[1] === 'b' ? 'b' : 'w';
+  const [bestLine] = lines;
+  const depth = bestLine?.depth;
+
+  return (
+    <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch id="engineEnabled" checked={enabled} onCheckedChange={onEnabledChange} />
+          <Label htmlFor="engineEnabled" className="text-white font-semibold flex items-center gap-2">
+            <Cpu className="w-4 h-4" />
+            {engineName ?? 'Engine'}
+          </Label>
+        </div>
+        <Select value={String(lineCount)} onValueChange={(value) => onLineCountChange(Number(value))}>
+          <SelectTrigger className="w-28 h-8 bg-gray-800/50 border-gray-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LINE_COUNTS.map(count => (
+              <SelectItem key={count} value={String(count)}>
+                {count} {count === 1 ? 'line' : 'lines'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {enabled && (
+        <div className="flex items-baseline justify-between">
+          <span className="text-3xl font-mono font-bold text-white">
+            {bestLine?.score ? formatScore(whiteScore(bestLine.score, turn)) : '…'}
+          </span>
+          <span className="text-gray-400 text-sm">
+            {depth !== undefined ? `Depth ${depth}` : 'Thinking...'}
+          </span>
+        </div>
+      )}
+
+      {enabled && lines.length > 0 && (
+        <ul className="space-y-2">
+          {lines.map((line, index) => (
+            <li key={index} className="flex gap-3 text-sm">
+              <span className="w-14 shrink-0 font-mono font-semibold text-gray-100">
+                {line.score ? formatScore(whiteScore(line.score, turn)) : ''}
+              </span>
+              <span className="text-gray-300 font-mono truncate">
+                {formatLine(fen, pvToSan(fen, line.pv ?? []))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default EngineAnalysis;
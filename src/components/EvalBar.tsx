@@ -0,0 +1,44 @@
+import React from 'react';
+import { UciScore } from '@/lib/engine/uci';
+import { formatScore, whiteWinningChance } from '@/lib/engine/evaluation';
+
+interface EvalBarProps {
+  // Evaluation from White's point of view, or null while none is available
+  score: UciScore | null;
+  isFlipped: boolean;
+}
+
+const EvalBar: React.FC<EvalBarProps> = ({ score, isFlipped }) => {
+  // Share of the bar filled by White, from 0 to 100
+  const whiteShare = score ? whiteWinningChance(score) * 100 : 50;
+  const whiteAhead = !score || score.value > 0 || (score.value === 0 && score.type === 'cp');
+  const label = score
+    ? score.type === 'mate' ? `M${Math.abs(score.value)}` : formatScore({ ...score, value: Math.abs(score.value) }).replace('+', '')
+    : '';
+
+  return (
+    <div
+      className={`relative w-6 shrink-0 self-stretch overflow-hidden rounded-md border border-gray-700 bg-gray-800 flex ${
+        isFlipped ? 'flex-col' : 'flex-col-reverse'
+      }`}
+      title={score ? formatScore(score) : 'No evaluation yet'}
+    >
+      <div
+        className="bg-gray-100 transition-all duration-700 ease-out"
+        style={{ height: `${whiteShare}%` }}
+      />
+      {label && (
+        // The number sits at White's or Black's end of the bar, whichever side is better
+        <span
+          className={`absolute inset-x-0 text-center text-[10px] font-bold font-mono ${
+            whiteAhead === isFlipped ? 'top-1' : 'bottom-1'
+          } ${whiteAhead ? 'text-gray-900' : 'text-gray-100'}`}
+        >
+          {label}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default EvalBar;
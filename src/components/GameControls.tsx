@@ -1,18 +1,87 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { RotateCcw, Flag, Home } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { RotateCcw, Flag, Home, Settings, Share2, Download, Copy, Undo2, Handshake, Scale, X, Pause, Play, Moon } from 'lucide-react';
+import { MoveInputMode, ReloadClockPolicy } from '@/lib/settings';
+import { DrawReason } from '@/lib/draw-rules';
 
 interface GameControlsProps {
   onFlipBoard: () => void;
   onResign: () => void;
+  onAbort: () => void;
+  canAbort: boolean;
   onGoHome: () => void;
+  onDownloadPgn: () => void;
+  onCopyPgn: () => void;
+  onTakeBack: () => void;
+  canTakeBack: boolean;
+  onOfferDraw: () => void;
+  canOfferDraw: boolean;
+  drawClaims: DrawReason[];
+  onClaimDraw: (reason: DrawReason) => void;
+  moveInput: MoveInputMode;
+  onMoveInputChange: (mode: MoveInputMode) => void;
+  casualUndo: boolean;
+  onCasualUndoChange: (casualUndo: boolean) => void;
+  liveEvalBar: boolean;
+  onLiveEvalBarChange: (liveEvalBar: boolean) => void;
+  reloadClock: ReloadClockPolicy;
+  onReloadClockChange: (policy: ReloadClockPolicy) => void;
+  isPaused: boolean;
+  onTogglePause: () => void;
+  canPause: boolean;
+  onAdjourn: () => void;
+  canAdjourn: boolean;
 }
 
+const MOVE_INPUT_HINTS: Record<MoveInputMode, string> = {
+  click: 'Click a piece to select it, then click where you want to move',
+  drag: 'Drag a piece to the square you want to move it to',
+  both: 'Click or drag a piece to move it'
+};
+
+const CLAIM_LABELS: Partial<Record<DrawReason, string>> = {
+  'threefold-repetition': 'Claim repetition',
+  'fifty-move': 'Claim 50-move rule'
+};
+
 const GameControls: React.FC<GameControlsProps> = ({
   onFlipBoard,
   onResign,
-  onGoHome
+  onAbort,
+  canAbort,
+  onGoHome,
+  onDownloadPgn,
+  onCopyPgn,
+  onTakeBack,
+  canTakeBack,
+  onOfferDraw,
+  canOfferDraw,
+  drawClaims,
+  onClaimDraw,
+  moveInput,
+  onMoveInputChange,
+  casualUndo,
+  onCasualUndoChange,
+  liveEvalBar,
+  onLiveEvalBarChange,
+  reloadClock,
+  onReloadClockChange,
+  isPaused,
+  onTogglePause,
+  canPause,
+  onAdjourn,
+  canAdjourn
 }) => {
   return (
     <div className="flex justify-between items-center mb-6">
@@ -30,26 +99,164 @@ const GameControls: React.FC<GameControlsProps> = ({
           Chess Master
         </h1>
         <div className="text-gray-300 text-sm">
-          Click a piece to select it, then click where you want to move
+          {MOVE_INPUT_HINTS[moveInput]}
         </div>
       </div>
       
-      <div className="flex gap-2">
+      <div className="flex flex-wrap justify-end gap-2">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              className="bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200"
+            >
+              <Settings className="w-4 h-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 bg-gray-900 border-gray-700 text-gray-200">
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Move pieces by</div>
+              <ToggleGroup
+                type="single"
+                value={moveInput}
+                onValueChange={(value) => value && onMoveInputChange(value as MoveInputMode)}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="click" className="data-[state=on]:bg-gray-700 data-[state=on]:text-white">
+                  Click
+                </ToggleGroupItem>
+                <ToggleGroupItem value="drag" className="data-[state=on]:bg-gray-700 data-[state=on]:text-white">
+                  Drag
+                </ToggleGroupItem>
+                <ToggleGroupItem value="both" className="data-[state=on]:bg-gray-700 data-[state=on]:text-white">
+                  Both
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            <div className="flex items-center justify-between mt-4">
+              <Label htmlFor="casualUndo" className="text-sm font-medium">
+                Casual mode: undo without asking
+              </Label>
+              <Switch
+                id="casualUndo"
+                checked={casualUndo}
+                onCheckedChange={onCasualUndoChange}
+              />
+            </div>
+            <div className="flex items-center justify-between mt-4">
+              <Label htmlFor="liveEvalBar" className="text-sm font-medium">
+                Show evaluation bar during the game
+              </Label>
+              <Switch
+                id="liveEvalBar"
+                checked={liveEvalBar}
+                onCheckedChange={onLiveEvalBarChange}
+              />
+            </div>
+            <div className="flex items-center justify-between mt-4">
+              <Label htmlFor="reloadClock" className="text-sm font-medium">
+                Keep the clock running while the page is closed
+              </Label>
+              <Switch
+                id="reloadClock"
+                checked={reloadClock === 'run'}
+                onCheckedChange={(checked) => onReloadClockChange(checked ? 'run' : 'pause')}
+              />
+            </div>
+          </PopoverContent>
+        </Popover>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              className="bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200"
+            >
+              <Share2 className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="bg-gray-900 border-gray-700 text-gray-200">
+            <DropdownMenuItem onClick={onDownloadPgn}>
+              <Download className="w-4 h-4 mr-2" />
+              Download PGN
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onCopyPgn}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy PGN
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         <Button
-          onClick={onFlipBoard}
+          onClick={onTogglePause}
+          disabled={!canPause}
           variant="outline"
           className="bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200"
         >
-          <RotateCcw className="w-4 h-4" />
+          {isPaused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+          {isPaused ? 'Resume' : 'Pause'}
         </Button>
         <Button
-          onClick={onResign}
-          variant="destructive"
-          className="bg-red-700 hover:bg-red-600 border-red-600 transition-all duration-200"
+          onClick={onAdjourn}
+          disabled={!canAdjourn}
+          variant="outline"
+          className="bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200"
+        >
+          <Moon className="w-4 h-4 mr-2" />
+          Adjourn
+        </Button>
+        <Button
+          onClick={onTakeBack}
+          disabled={!canTakeBack}
+          variant="outline"
+          className="bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200"
         >
-          <Flag className="w-4 h-4 mr-2" />
-          Resign
+          <Undo2 className="w-4 h-4 mr-2" />
+          Take back
+        </Button>
+        <Button
+          onClick={onOfferDraw}
+          disabled={!canOfferDraw}
+          variant="outline"
+          className="bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200"
+        >
+          <Handshake className="w-4 h-4 mr-2" />
+          Offer draw
+        </Button>
+        {drawClaims.map(reason => (
+          <Button
+            key={reason}
+            onClick={() => onClaimDraw(reason)}
+            className="bg-amber-700 hover:bg-amber-600 text-white transition-all duration-200"
+          >
+            <Scale className="w-4 h-4 mr-2" />
+            {CLAIM_LABELS[reason]}
+          </Button>
+        ))}
+        <Button
+          onClick={onFlipBoard}
+          variant="outline"
+          className="bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200"
+        >
+          <RotateCcw className="w-4 h-4" />
         </Button>
+        {canAbort ? (
+          <Button
+            onClick={onAbort}
+            variant="outline"
+            className="bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Abort
+          </Button>
+        ) : (
+          <Button
+            onClick={onResign}
+            variant="destructive"
+            className="bg-red-700 hover:bg-red-600 border-red-600 transition-all duration-200"
+          >
+            <Flag className="w-4 h-4 mr-2" />
+            Resign
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,193 @@
+import React, { useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { GraduationCap, Trophy } from 'lucide-react';
+import { formatScore, pvToSan } from '@/lib/engine/evaluation';
+import { MOVE_CLASSIFICATIONS, MoveClassification, PositionEvaluation, reviewGame } from '@/lib/engine/review';
+
+// Evaluations beyond this many pawns, and mates, are drawn at the edge of the graph
+const GRAPH_LIMIT = 8;
+
+const CLASSIFICATION_COLORS: Record<MoveClassification, string> = {
+  best: 'text-emerald-400',
+  good: 'text-gray-300',
+  inaccuracy: 'text-yellow-400',
+  mistake: 'text-orange-400',
+  blunder: 'text-red-500'
+};
+
+const chartConfig = {
+  advantage: { label: 'Evaluation', color: '#e5e7eb' }
+} satisfies ChartConfig;
+
+interface GameReviewProps {
+  startFen: string;
+  // Moves of the game with the position after each
+  moves: { san: string; uci: string; fen: string }[];
+  evaluations: PositionEvaluation[];
+  whiteName: string;
+  blackName: string;
+  // Index of the move shown on the board, -1 for the starting position
+  currentPly: number;
+  onSelectPly: (ply: number) => void;
+  onShowResult: () => void;
+}
+
+const GameReview: React.FC<GameReviewProps> = ({
+  startFen,
+  moves,
+  evaluations,
+  whiteName,
+  blackName,
+  currentPly,
+  onSelectPly,
+  onShowResult
+}) => {
+  const startTurn = startFen.split(' ')[1] === 'b' ? 'black' : 'white';
+  const review = useMemo(() => reviewGame(moves, evaluations, startTurn), [moves, evaluations, startTurn]);
+  const total = moves.length + 1;
+  const complete = evaluations.length >= total;
+
+  // Move numbers count from the start position's fullmove counter
+  const fullmove = parseInt(startFen.split(' ')[5]) || 1;
+  const moveLabel = (ply: number) => {
+    const index = ply + (startTurn === 'black' ? 1 : 0);
+    const number = fullmove + Math.floor(index / 2);
+    return `${number}${index % 2 === 0 ? '.' : '...'} ${moves[ply].san}`;
+  };
+
+  const data = evaluations.map((evaluation, index) => {
+    const { score } = evaluation;
+    const pawns = score.type === 'mate' ? Math.sign(score.value) * GRAPH_LIMIT : score.value / 100;
+    return {
+      index,
+      move: index === 0 ? 'Start' : moveLabel(index - 1),
+      advantage: Math.max(-GRAPH_LIMIT, Math.min(GRAPH_LIMIT, pawns)),
+      score: formatScore(score)
+    };
+  });
+
+  const keyMoments = review.moves.filter(move =>
+    move.classification === 'mistake' || move.classification === 'blunder');
+
+  const bestMoveSan = (ply: number, bestMove: string | null) => {
+    if (!bestMove) return null;
+    return pvToSan(ply === 0 ? startFen : moves[ply - 1].fen, [bestMove])[0] ?? null;
+  };
+
+  const formatAccuracy = (accuracy: number | null) => accuracy === null ? '–' : `${accuracy.toFixed(1)}%`;
+
+  return (
+    <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold flex items-center gap-2">
+          <GraduationCap className="w-4 h-4" />
+          Game review
+        </h3>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onShowResult}
+          className="h-7 text-gray-300 hover:text-white hover:bg-gray-700"
+        >
+          <Trophy className="w-3 h-3 mr-1" />
+          Result
+        </Button>
+      </div>
+
+      {!complete && (
+        <div className="space-y-1">
+          <Progress value={(evaluations.length / total) * 100} className="h-2" />
+          <p className="text-gray-400 text-xs">
+            Analysing position {Math.min(evaluations.length + 1, total)} of {total}...
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 gap-y-1 text-sm">
+        <span />
+        <span className="text-gray-400 truncate max-w-24">{whiteName}</span>
+        <span className="text-gray-400 truncate max-w-24">{blackName}</span>
+        <span className="text-gray-200 font-medium">Accuracy</span>
+        <span className="text-white font-mono font-bold">{formatAccuracy(review.accuracy.white)}</span>
+        <span className="text-white font-mono font-bold">{formatAccuracy(review.accuracy.black)}</span>
+        {MOVE_CLASSIFICATIONS.map(({ value, label }) => (
+          <React.Fragment key={value}>
+            <span className={CLASSIFICATION_COLORS[value]}>{label}</span>
+            <span className="text-gray-200 font-mono text-center">
+              {review.moves.filter(move => move.color === 'white' && move.classification === value).length}
+            </span>
+            <span className="text-gray-200 font-mono text-center">
+              {review.moves.filter(move => move.color === 'black' && move.classification === value).length}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {data.length > 1 && (
+        <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+          <AreaChart
+            data={data}
+            margin={{ top: 4, right: 4, bottom: 0, left: 4 }}
+            onClick={(state) => {
+              if (state?.activeTooltipIndex !== undefined) onSelectPly(state.activeTooltipIndex - 1);
+            }}
+          >
+            <CartesianGrid vertical={false} strokeOpacity={0.1} />
+            <XAxis dataKey="index" hide />
+            <YAxis domain={[-GRAPH_LIMIT, GRAPH_LIMIT]} hide />
+            <ReferenceLine y={0} stroke="#6b7280" />
+            <ReferenceLine x={currentPly + 1} stroke="#3b82f6" />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelKey="move"
+                  formatter={(_value, _name, item) => item.payload.score}
+                />
+              }
+            />
+            <Area
+              dataKey="advantage"
+              type="monotone"
+              baseValue={-GRAPH_LIMIT}
+              stroke="var(--color-advantage)"
+              fill="var(--color-advantage)"
+              fillOpacity={0.8}
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ChartContainer>
+      )}
+
+      {keyMoments.length > 0 && (
+        <ul className="space-y-1">
+          {keyMoments.map(move => {
+            const best = bestMoveSan(move.ply, move.bestMove);
+            return (
+              <li key={move.ply}>
+                <button
+                  type="button"
+                  onClick={() => onSelectPly(move.ply)}
+                  className={`w-full text-left px-2 py-1 rounded text-sm transition-colors duration-150 ${
+                    move.ply === currentPly ? 'bg-blue-600/70' : 'hover:bg-gray-700/70'
+                  }`}
+                >
+                  <span className="font-mono text-gray-100">{moveLabel(move.ply)}</span>
+                  <span className={`ml-2 ${CLASSIFICATION_COLORS[move.classification]}`}>
+                    {MOVE_CLASSIFICATIONS.find(({ value }) => value === move.classification)?.label}
+                  </span>
+                  {best && <span className="ml-2 text-gray-400">Best was {best}</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default GameReview;
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef } from 'react';
+import { DEFAULT_POSITION } from 'chess.js';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ListOrdered, Radio } from 'lucide-react';
+
+interface MoveListProps {
+  moves: string[];
+  // Index of the highlighted move, -1 for the starting position
+  currentPly: number;
+  onSelectPly: (ply: number) => void;
+  isLive?: boolean;
+  onBackToLive?: () => void;
+  // Position the moves start from, which decides the first move number and who moves first
+  startFen?: string;
+}
+
+const MoveList: React.FC<MoveListProps> = ({
+  moves,
+  currentPly,
+  onSelectPly,
+  isLive = true,
+  onBackToLive,
+  startFen = DEFAULT_POSITION
+}) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the highlighted move in view
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentPly, moves.length]);
+
+  // A game starting with Black to move leaves White's half of the first row empty
+  const [, turn, , , , fullmove] = startFen.split(' ');
+  const offset = turn === 'b' ? 1 : 0;
+  const firstNumber = parseInt(fullmove) || 1;
+
+  const rows: { number: number; white?: number; black?: number }[] = [];
+  for (let index = 0; index < moves.length + offset; index += 2) {
+    const white = index - offset;
+    rows.push({
+      number: firstNumber + index / 2,
+      white: white >= 0 ? white : undefined,
+      black: white + 1 < moves.length ? white + 1 : undefined
+    });
+  }
+
+  const renderMove = (ply?: number) => {
+    if (ply === undefined) {
+      return <span />;
+    }
+    const isActive = ply === currentPly;
+    return (
+      <button
+        ref={isActive ? activeRef : undefined}
+        type="button"
+        onClick={() => onSelectPly(ply)}
+        className={`text-left px-2 py-0.5 rounded font-mono text-sm transition-colors duration-150 ${
+          isActive
+            ? 'bg-blue-600/70 text-white'
+            : 'text-gray-200 hover:bg-gray-700/70'
+        }`}
+      >
+        {moves[ply]}
+      </button>
+    );
+  };
+
+  return (
+    <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white font-semibold flex items-center gap-2">
+          <ListOrdered className="w-4 h-4" />
+          Moves
+        </h3>
+        {!isLive && onBackToLive && (
+          <Button
+            size="sm"
+            onClick={onBackToLive}
+            className="h-7 bg-green-700 hover:bg-green-600 text-white"
+          >
+            <Radio className="w-3 h-3 mr-1" />
+            Back to live
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="h-64">
+        {moves.length === 0 ? (
+          <p className="text-gray-500 text-sm">No moves yet</p>
+        ) : (
+          <div className="grid grid-cols-[2.5rem_1fr_1fr] gap-y-1 pr-3">
+            {rows.map(row => (
+              <React.Fragment key={row.number}>
+                <span className="text-gray-500 font-mono text-sm py-0.5">{row.number}.</span>
+                {renderMove(row.white)}
+                {renderMove(row.black)}
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </Card>
+  );
+};
+
+export default MoveList;
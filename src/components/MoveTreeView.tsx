@@ -0,0 +1,213 @@
+import React, { useEffect, useRef } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { GitBranch, ArrowUpToLine, Trash2, Copy } from 'lucide-react';
+import { MoveNode, MoveTree, TreePath, nodeAt } from '@/lib/move-tree';
+
+// Glyphs that can be toggled on a move, in the order they are offered
+const MOVE_NAGS = [
+  { nag: 1, symbol: '!' },
+  { nag: 2, symbol: '?' },
+  { nag: 3, symbol: '!!' },
+  { nag: 4, symbol: '??' },
+  { nag: 5, symbol: '!?' },
+  { nag: 6, symbol: '?!' }
+];
+
+const nagSymbol = (nag: number) => MOVE_NAGS.find(option => option.nag === nag)?.symbol ?? `$${nag}`;
+
+interface MoveTreeViewProps {
+  tree: MoveTree;
+  // Path to the selected move, empty for the starting position
+  path: TreePath;
+  onSelect: (path: TreePath) => void;
+  onPromote: (path: TreePath) => void;
+  onDelete: (path: TreePath) => void;
+  onAnnotate: (path: TreePath, changes: Partial<Pick<MoveNode, 'comment' | 'nags'>>) => void;
+  onCopyPgn?: () => void;
+}
+
+const MoveTreeView: React.FC<MoveTreeViewProps> = ({
+  tree,
+  path,
+  onSelect,
+  onPromote,
+  onDelete,
+  onAnnotate,
+  onCopyPgn
+}) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const selected = nodeAt(tree, path);
+  const selectedKey = path.join('/');
+
+  // Keep the selected move in view
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [selectedKey]);
+
+  // Plies are counted from White's first move so numbering follows the start position
+  const [, turn, , , , fullmove] = tree.startFen.split(' ');
+  const startPly = ((parseInt(fullmove) || 1) - 1) * 2 + (turn === 'b' ? 1 : 0);
+
+  const renderMove = (node: MoveNode, nodePath: TreePath, ply: number, showNumber: boolean, inVariation: boolean) => {
+    const isActive = nodePath.join('/') === selectedKey;
+    const number = Math.floor(ply / 2) + 1;
+    const prefix = ply % 2 === 0 ? `${number}.` : showNumber ? `${number}...` : '';
+    return (
+      <button
+        key={node.id}
+        ref={isActive ? activeRef : undefined}
+        type="button"
+        onClick={() => onSelect(nodePath)}
+        className={`px-1 rounded font-mono text-sm transition-colors duration-150 ${
+          isActive
+            ? 'bg-blue-600/70 text-white'
+            : inVariation ? 'text-gray-400 hover:bg-gray-700/70' : 'text-gray-100 hover:bg-gray-700/70'
+        }`}
+      >
+        {prefix && <span className="text-gray-500 mr-1">{prefix}</span>}
+        {node.san}
+        {node.nags.map(nagSymbol).join('')}
+      </button>
+    );
+  };
+
+  // Renders a line with its variations; the first variations of the mainline get their own rows
+  const renderLine = (
+    children: MoveNode[],
+    parentPath: TreePath,
+    ply: number,
+    depth: number
+  ): React.ReactNode[] => {
+    const items: React.ReactNode[] = [];
+    let siblings = children;
+    let linePath = parentPath;
+    let linePly = ply;
+    let showNumber = true;
+
+    while (siblings.length > 0) {
+      const [main, ...alternatives] = siblings;
+      const mainPath = [...linePath, main.id];
+      items.push(renderMove(main, mainPath, linePly, showNumber, depth > 0));
+      if (main.comment) {
+        items.push(
+          <span key={`${main.id}-comment`} className="text-emerald-300/90 text-sm italic px-1">
+            {main.comment}
+          </span>
+        );
+      }
+      alternatives.forEach(alternative => {
+        const variation = renderLine([alternative], linePath, linePly, depth + 1);
+        items.push(depth === 0 ? (
+          <div key={`${alternative.id}-variation`} className="w-full border-l-2 border-gray-700 pl-2 my-1 flex flex-wrap items-baseline">
+            {variation}
+          </div>
+        ) : (
+          <span key={`${alternative.id}-variation`} className="text-gray-500 text-sm">
+            ({variation})
+          </span>
+        ));
+      });
+
+      showNumber = !!main.comment || alternatives.length > 0;
+      linePath = mainPath;
+      siblings = main.children;
+      linePly++;
+    }
+    return items;
+  };
+
+  const toggleNag = (nag: number) => {
+    if (!selected) return;
+    const nags = selected.nags.includes(nag)
+      ? selected.nags.filter(existing => existing !== nag)
+      : [...selected.nags.filter(existing => existing > 6), nag].sort((a, b) => a - b);
+    onAnnotate(path, { nags });
+  };
+
+  const comment = selected ? selected.comment : tree.comment;
+
+  return (
+    <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold flex items-center gap-2">
+          <GitBranch className="w-4 h-4" />
+          Moves
+        </h3>
+        {onCopyPgn && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onCopyPgn}
+            className="h-7 text-gray-300 hover:text-white hover:bg-gray-700"
+          >
+            <Copy className="w-3 h-3 mr-1" />
+            PGN
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="h-64">
+        {tree.comment && (
+          <p className="text-emerald-300/90 text-sm italic mb-1">{tree.comment}</p>
+        )}
+        {tree.children.length === 0 ? (
+          <p className="text-gray-500 text-sm">No moves yet</p>
+        ) : (
+          <div className="flex flex-wrap items-baseline gap-y-1 pr-3">
+            {renderLine(tree.children, [], startPly, 0)}
+          </div>
+        )}
+      </ScrollArea>
+
+      {selected && (
+        <div className="flex flex-wrap items-center gap-1">
+          {MOVE_NAGS.map(option => (
+            <Button
+              key={option.nag}
+              size="sm"
+              variant="outline"
+              onClick={() => toggleNag(option.nag)}
+              className={`h-7 w-9 px-0 font-mono border-gray-700 ${
+                selected.nags.includes(option.nag)
+                  ? 'bg-blue-600/70 text-white hover:bg-blue-600'
+                  : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.symbol}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onPromote(path)}
+            className="h-7 ml-auto bg-gray-800/80 border-gray-700 text-gray-300 hover:bg-gray-700"
+            title="Promote to mainline"
+          >
+            <ArrowUpToLine className="w-3 h-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onDelete(path)}
+            className="h-7 bg-gray-800/80 border-gray-700 text-gray-300 hover:bg-red-900/60"
+            title="Delete from here"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+
+      <Textarea
+        value={comment ?? ''}
+        onChange={(e) => onAnnotate(path, { comment: e.target.value || undefined })}
+        placeholder={selected ? `Comment on ${selected.san}` : 'Comment on the starting position'}
+        className="h-16 bg-gray-800/50 border-gray-600 text-white placeholder:text-gray-500 text-sm"
+      />
+    </Card>
+  );
+};
+
+export default MoveTreeView;
@@ -0,0 +1,58 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+
+interface OfferDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+// Asks the opponent to accept or decline a request made over the board
+const OfferDialog: React.FC<OfferDialogProps> = ({
+  open,
+  title,
+  description,
+  onAccept,
+  onDecline
+}) => {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent
+        onEscapeKeyDown={onDecline}
+        className="bg-gray-900 border-gray-700 text-gray-200"
+      >
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-white">{title}</AlertDialogTitle>
+          <AlertDialogDescription className="text-gray-300">{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel
+            onClick={onDecline}
+            className="bg-gray-800 border-gray-600 text-gray-200 hover:bg-gray-700 hover:text-white"
+          >
+            Decline
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onAccept}
+            className="bg-green-700 hover:bg-green-600 text-white"
+          >
+            Accept
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default OfferDialog;
@@ -2,26 +2,27 @@
 import React from 'react';
 import { Card } from '@/components/ui/card';
 import { Circle } from 'lucide-react';
+import { formatClock } from '@/lib/chess-clock';
+import { THREE_CHECK_LIMIT } from '@/lib/variants';
 
 interface Player {
   name: string;
   color: 'white' | 'black';
+  // Remaining time in milliseconds
   timeLeft: number;
 }
 
 interface PlayerInfoProps {
   player: Player;
   isCurrentTurn: boolean;
+  // Shown while the computer searches for its move
+  isThinking?: boolean;
+  // Checks given so far, shown in Three-check games
+  checks?: number;
   position: 'top' | 'bottom';
 }
 
-const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, isCurrentTurn, position }) => {
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
-
+const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, isCurrentTurn, isThinking = false, checks, position }) => {
   return (
     <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl">
       <div className="flex items-center justify-between">
@@ -37,14 +38,30 @@ const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, isCurrentTurn, position
               <p className="text-gray-400 text-sm font-medium">
                 {player.color === 'white' ? 'White Pieces' : 'Black Pieces'}
               </p>
+              {checks !== undefined && (
+                <div className="flex items-center gap-1 mt-1" aria-label={`${checks} of ${THREE_CHECK_LIMIT} checks given`}>
+                  {Array.from({ length: THREE_CHECK_LIMIT }, (_, index) => (
+                    <span
+                      key={index}
+                      className={`w-2.5 h-2.5 rounded-full ${index < checks ? 'bg-red-500' : 'bg-gray-700'}`}
+                    />
+                  ))}
+                  <span className="text-gray-400 text-xs ml-1">{checks}/{THREE_CHECK_LIMIT} checks</span>
+                </div>
+              )}
+              {isThinking && (
+                <p className="text-blue-400 text-xs animate-pulse">Thinking...</p>
+              )}
             </div>
           </div>
         </div>
         <div className="text-right">
           <div className={`text-2xl font-mono font-bold ${
-            isCurrentTurn ? 'text-green-400' : 'text-gray-300'
+            player.timeLeft < 10000
+              ? 'text-red-400'
+              : isCurrentTurn ? 'text-green-400' : 'text-gray-300'
           }`}>
-            {formatTime(player.timeLeft)}
+            {formatClock(player.timeLeft)}
           </div>
           {isCurrentTurn && (
             <div className="w-2 h-2 bg-green-400 rounded-full mx-auto animate-pulse" />
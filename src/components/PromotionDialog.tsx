@@ -0,0 +1,79 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+
+interface PromotionDialogProps {
+  square: string;
+  color: 'white' | 'black';
+  isFlipped: boolean;
+  onSelect: (piece: PromotionPiece) => void;
+  onCancel: () => void;
+}
+
+const PROMOTION_PIECES: PromotionPiece[] = ['q', 'n', 'r', 'b'];
+
+const PIECE_SYMBOLS: Record<'white' | 'black', Record<PromotionPiece, string>> = {
+  white: { q: '♕', r: '♖', b: '♗', n: '♘' },
+  black: { q: '♛', r: '♜', b: '♝', n: '♞' }
+};
+
+const PIECE_NAMES: Record<PromotionPiece, string> = {
+  q: 'Queen',
+  r: 'Rook',
+  b: 'Bishop',
+  n: 'Knight'
+};
+
+const PromotionDialog: React.FC<PromotionDialogProps> = ({
+  square,
+  color,
+  isFlipped,
+  onSelect,
+  onCancel
+}) => {
+  const file = square.charCodeAt(0) - 'a'.charCodeAt(0);
+  const rank = parseInt(square[1]) - 1;
+
+  // Board coordinates as displayed, accounting for orientation
+  const column = isFlipped ? 7 - file : file;
+  const row = isFlipped ? rank : 7 - rank;
+
+  // Stack the choices from the edge of the board towards the centre
+  const stackDown = row === 0;
+
+  return (
+    <div
+      className="absolute inset-0 z-20 bg-black/40 rounded-xl"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="absolute flex flex-col bg-gray-100 rounded-lg shadow-2xl overflow-hidden border border-gray-400"
+        style={{
+          left: `${column * 12.5}%`,
+          width: '12.5%',
+          ...(stackDown
+            ? { top: 0 }
+            : { bottom: 0, flexDirection: 'column-reverse' })
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {PROMOTION_PIECES.map(piece => (
+          <button
+            key={piece}
+            type="button"
+            onClick={() => onSelect(piece)}
+            className="aspect-square w-full flex items-center justify-center text-4xl text-gray-900 hover:bg-yellow-200 transition-colors duration-150"
+            aria-label={`Promote to ${PIECE_NAMES[piece]}`}
+          >
+            {PIECE_SYMBOLS[color][piece]}
+          </button>
+        ))}
+      </motion.div>
+    </div>
+  );
+};
+
+export default PromotionDialog;
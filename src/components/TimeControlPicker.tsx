@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TIME_CONTROL_PRESETS, TimeControl, TimingMethod } from '@/lib/time-control';
+
+interface TimeControlPickerProps {
+  value: TimeControl;
+  onChange: (timeControl: TimeControl) => void;
+}
+
+const CUSTOM_ID = 'custom';
+
+const METHOD_LABELS: Record<TimingMethod, string> = {
+  'fischer': 'Increment',
+  'simple-delay': 'Simple delay',
+  'bronstein': 'Bronstein delay'
+};
+
+const TimeControlPicker: React.FC<TimeControlPickerProps> = ({ value, onChange }) => {
+  const [selectedId, setSelectedId] = useState(
+    () => TIME_CONTROL_PRESETS.find(preset => preset.timeControl === value)?.id ?? CUSTOM_ID
+  );
+  const [customMinutes, setCustomMinutes] = useState(10);
+  const [customBonus, setCustomBonus] = useState(5);
+  const [customMethod, setCustomMethod] = useState<TimingMethod>('fischer');
+
+  const applyCustom = (minutes: number, bonus: number, method: TimingMethod) => {
+    onChange({
+      method,
+      stages: [{ baseSeconds: Math.max(minutes, 0.5) * 60, bonusSeconds: Math.max(bonus, 0) }]
+    });
+  };
+
+  const selectPreset = (id: string) => {
+    setSelectedId(id);
+    if (id === CUSTOM_ID) {
+      applyCustom(customMinutes, customBonus, customMethod);
+      return;
+    }
+    const preset = TIME_CONTROL_PRESETS.find(p => p.id === id);
+    if (preset) {
+      onChange(preset.timeControl);
+    }
+  };
+
+  const buttonClass = (id: string) => `${
+    selectedId === id
+      ? 'bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700'
+      : 'bg-gray-800/50 hover:bg-gray-700 text-gray-200 border-gray-600'
+  } transition-all duration-200 h-auto py-2 flex flex-col`;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {TIME_CONTROL_PRESETS.map(preset => (
+          <Button
+            key={preset.id}
+            variant={selectedId === preset.id ? "default" : "outline"}
+            onClick={() => selectPreset(preset.id)}
+            className={buttonClass(preset.id)}
+          >
+            <span className="text-sm font-semibold whitespace-normal leading-tight">{preset.label}</span>
+            <span className="text-xs opacity-70">{preset.category}</span>
+          </Button>
+        ))}
+      </div>
+      <Button
+        variant={selectedId === CUSTOM_ID ? "default" : "outline"}
+        onClick={() => selectPreset(CUSTOM_ID)}
+        className={`w-full ${buttonClass(CUSTOM_ID)}`}
+      >
+        Custom
+      </Button>
+
+      {selectedId === CUSTOM_ID && (
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="customMinutes" className="text-gray-400 text-xs">Minutes</Label>
+            <Input
+              id="customMinutes"
+              type="number"
+              min={1}
+              value={customMinutes}
+              onChange={(e) => {
+                const minutes = Number(e.target.value);
+                setCustomMinutes(minutes);
+                applyCustom(minutes, customBonus, customMethod);
+              }}
+              className="bg-gray-800/50 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="customBonus" className="text-gray-400 text-xs">Seconds</Label>
+            <Input
+              id="customBonus"
+              type="number"
+              min={0}
+              value={customBonus}
+              onChange={(e) => {
+                const bonus = Number(e.target.value);
+                setCustomBonus(bonus);
+                applyCustom(customMinutes, bonus, customMethod);
+              }}
+              className="bg-gray-800/50 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-400 text-xs">Method</Label>
+            <Select
+              value={customMethod}
+              onValueChange={(method: TimingMethod) => {
+                setCustomMethod(method);
+                applyCustom(customMinutes, customBonus, method);
+              }}
+            >
+              <SelectTrigger className="bg-gray-800/50 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METHOD_LABELS) as TimingMethod[]).map(method => (
+                  <SelectItem key={method} value={method}>{METHOD_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeControlPicker;
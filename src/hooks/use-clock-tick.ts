@@ -0,0 +1,20 @@
+import * as React from "react"
+
+import { clockNow } from "@/lib/chess-clock"
+
+const TICK_INTERVAL = 100
+
+// Re-renders while running and returns the current monotonic timestamp
+export function useClockTick(running: boolean) {
+  const [now, setNow] = React.useState(clockNow)
+
+  React.useEffect(() => {
+    if (!running) return
+
+    setNow(clockNow())
+    const interval = setInterval(() => setNow(clockNow()), TICK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [running])
+
+  return now
+}
@@ -0,0 +1,101 @@
+import * as React from "react"
+
+import { DEFAULT_ENGINE_ID, engineDefinition } from "@/lib/engine/engines"
+import { UciEngine } from "@/lib/engine/uci-engine"
+import { UciBestMove, UciGoParams, UciInfo } from "@/lib/engine/uci"
+
+export interface EngineSearch {
+  fen: string
+  moves: string[]
+  params: UciGoParams
+  // Engine options to apply before searching, e.g. "Skill Level"
+  options?: Record<string, string | number>
+  onInfo?: (info: UciInfo) => void
+}
+
+// An engine that has not answered "stop" by then is restarted
+const STOP_TIMEOUT = 500
+
+interface EngineSession {
+  engine: Promise<UciEngine> | null
+  // The search currently running, if any
+  search: Promise<UciBestMove> | null
+}
+
+const startEngine = (engineId: string) => {
+  const engine = new UciEngine(engineDefinition(engineId).create())
+  return engine.init().then(() => engine)
+}
+
+// Runs a UCI engine for the lifetime of the component, one search at a time.
+// The engine only starts with the first search, so components that never search cost no worker
+export function useEngine(engineId: string = DEFAULT_ENGINE_ID) {
+  const sessionRef = React.useRef<EngineSession>({ engine: null, search: null })
+  const [thinking, setThinking] = React.useState(false)
+  // Incremented per search so a stopped search's answer is ignored
+  const searchIdRef = React.useRef(0)
+
+  React.useEffect(() => {
+    const session = sessionRef.current
+    return () => {
+      session.engine?.then(engine => engine.quit())
+      session.engine = null
+      session.search = null
+    }
+  }, [engineId])
+
+  // Resolves with the engine's answer, or null if the search was stopped
+  const findMove = React.useCallback(async (search: EngineSearch): Promise<UciBestMove | null> => {
+    const session = sessionRef.current
+    const id = ++searchIdRef.current
+    session.engine ??= startEngine(engineId)
+    const engine = await session.engine
+    if (id !== searchIdRef.current) return null
+
+    Object.entries(search.options ?? {}).forEach(([name, value]) => {
+      const option = engine.options[name]
+      if (!option) return
+      // Keep numeric options within the range the engine advertises
+      const clamped = typeof value === "number"
+        ? Math.min(option.max ?? value, Math.max(option.min ?? value, value))
+        : value
+      engine.setOption(name, clamped)
+    })
+    engine.position(search.fen, search.moves)
+
+    setThinking(true)
+    const pending = engine.go(search.params, (info) => {
+      if (id === searchIdRef.current) search.onInfo?.(info)
+    })
+    session.search = pending
+    const result = await pending
+    if (session.search === pending) session.search = null
+    if (id !== searchIdRef.current) return null
+    setThinking(false)
+    return result
+  }, [engineId])
+
+  const stop = React.useCallback(() => {
+    const session = sessionRef.current
+    searchIdRef.current++
+    setThinking(false)
+
+    const { engine, search } = session
+    if (!engine || !search) return
+    session.search = null
+
+    engine.then(started => {
+      started.stop()
+      // Some engines only notice "stop" between iterations; do not wait long for them
+      const timeout = setTimeout(() => {
+        if (session.engine !== engine) return
+        started.quit()
+        // The next search starts a fresh engine
+        session.engine = null
+      }, STOP_TIMEOUT)
+      search.then(() => clearTimeout(timeout))
+    })
+  }, [])
+
+  return { findMove, stop, thinking }
+}
@@ -0,0 +1,30 @@
+import * as React from "react"
+
+import { useEngine } from "@/hooks/use-engine"
+import { UciScore } from "@/lib/engine/uci"
+import { whiteScore } from "@/lib/engine/evaluation"
+
+// Keeps an engine analysing a position and reports its score from White's point of view
+export function useEvaluation(fen: string, enabled: boolean) {
+  const { findMove, stop } = useEngine()
+  const [score, setScore] = React.useState<UciScore | null>(null)
+
+  React.useEffect(() => {
+    setScore(null)
+    if (!enabled) return
+
+    const turn = fen.split(" ")[1] === "b" ? "b" : "w"
+    findMove({
+      fen,
+      moves: [],
+      params: { infinite: true },
+      options: { MultiPV: 1 },
+      onInfo: (info) => {
+        if (info.score) setScore(whiteScore(info.score, turn))
+      }
+    })
+    return () => stop()
+  }, [fen, enabled, findMove, stop])
+
+  return score
+}
@@ -0,0 +1,88 @@
+import * as React from "react"
+import { Chess } from "chess.js"
+
+import { useEngine } from "@/hooks/use-engine"
+import { UciScore } from "@/lib/engine/uci"
+import { whiteScore } from "@/lib/engine/evaluation"
+import { PositionEvaluation } from "@/lib/engine/review"
+import { GameResult } from "@/lib/game-result"
+import { GameVariant, createPosition, variantResult } from "@/lib/variants"
+
+// Search limits per reviewed position
+const REVIEW_DEPTH = 4
+const REVIEW_MOVE_TIME = 1500
+// Asks for the engine's full strength; clamped to the levels it offers
+const REVIEW_SKILL_LEVEL = 20
+
+// Player names only appear in result messages, which the review does not show
+const COLOR_NAMES = { white: "White", black: "Black" }
+
+// Verdict on a finished position, which needs no search
+const terminalEvaluation = (chess: Chess, ending: GameResult | null): PositionEvaluation => {
+  // Only the sign of a mate score matters here: it points at the winner
+  let score: UciScore = { type: "cp", value: 0 }
+  if (ending?.winner) {
+    score = { type: "mate", value: ending.winner === "white" ? 1 : -1 }
+  } else if (!ending && chess.isCheckmate()) {
+    score = { type: "mate", value: chess.turn() === "w" ? -1 : 1 }
+  }
+  return { score, bestMove: null }
+}
+
+// Has an engine evaluate every position of a game, one after another, while enabled.
+// Positions are sent as FENs so games in any variant the engine can read are reviewed alike,
+// and a position where the variant's goal was reached counts as finished.
+// sans[i] is the move that led to positions[i + 1]
+export function useGameReview(positions: string[], enabled: boolean, variant?: GameVariant, sans: string[] = []) {
+  const { findMove, stop } = useEngine()
+  const [evaluations, setEvaluations] = React.useState<PositionEvaluation[]>([])
+  const positionKey = positions.join("\n")
+  const sanKey = sans.join(" ")
+
+  React.useEffect(() => {
+    setEvaluations([])
+    if (!enabled) return
+
+    let cancelled = false
+    const fens = positionKey ? positionKey.split("\n") : []
+    const played = (sanKey ? sanKey.split(" ") : []).map((san, index) => ({ san, fen: fens[index + 1] }))
+
+    const run = async () => {
+      for (const [index, fen] of fens.entries()) {
+        const chess = createPosition(variant, fen)
+        const ending = index > 0 ? variantResult(variant, chess, played.slice(0, index), COLOR_NAMES) : null
+
+        let evaluation: PositionEvaluation
+        if (ending || chess.isGameOver()) {
+          evaluation = terminalEvaluation(chess, ending)
+        } else {
+          let score: UciScore | null = null
+          const result = await findMove({
+            fen,
+            moves: [],
+            params: { depth: REVIEW_DEPTH, movetime: REVIEW_MOVE_TIME },
+            options: { "Skill Level": REVIEW_SKILL_LEVEL, MultiPV: 1 },
+            onInfo: (info) => {
+              if (info.score) score = info.score
+            }
+          })
+          if (cancelled || !result) return
+          evaluation = {
+            score: score ? whiteScore(score, chess.turn()) : { type: "cp", value: 0 },
+            bestMove: result.bestMove
+          }
+        }
+        if (cancelled) return
+        setEvaluations(prev => [...prev, evaluation])
+      }
+    }
+
+    run()
+    return () => {
+      cancelled = true
+      stop()
+    }
+  }, [positionKey, sanKey, variant, enabled, findMove, stop])
+
+  return { evaluations, total: positions.length, complete: evaluations.length === positions.length }
+}
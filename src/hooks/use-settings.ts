@@ -0,0 +1,17 @@
+import * as React from "react"
+
+import { loadSettings, saveSettings, type Settings } from "@/lib/settings"
+
+export function useSettings() {
+  const [settings, setSettings] = React.useState<Settings>(loadSettings)
+
+  const updateSettings = React.useCallback((changes: Partial<Settings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes }
+      saveSettings(next)
+      return next
+    })
+  }, [])
+
+  return { settings, updateSettings }
+}
@@ -0,0 +1,60 @@
+import { GameCheckpoint, SealedMove } from '@/lib/game-state';
+
+// Games put aside to be finished another day
+export interface AdjournedGame {
+  checkpoint: GameCheckpoint;
+  // Move chosen by the side to move, hidden until the game resumes
+  sealedMove?: SealedMove;
+  // When the game was adjourned, in milliseconds since the epoch
+  adjournedAt: number;
+}
+
+const ADJOURNED_GAMES_KEY = 'chessAdjournedGames';
+
+/**
+ * Lists the adjourned games
+ * @returns The games, most recently adjourned first
+ */
+export function listAdjournedGames(): AdjournedGame[] {
+  try {
+    const stored = localStorage.getItem(ADJOURNED_GAMES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Replaces the stored list of adjourned games
+function saveAdjournedGames(games: AdjournedGame[]): void {
+  localStorage.setItem(ADJOURNED_GAMES_KEY, JSON.stringify(games));
+}
+
+/**
+ * Puts a game aside, replacing any earlier adjournment of it
+ * @param checkpoint The game as it stands
+ * @param sealedMove Move sealed by the side to move, if any
+ */
+export function adjournGame(checkpoint: Omit<GameCheckpoint, 'savedAt'>, sealedMove?: SealedMove): void {
+  const adjourned: AdjournedGame = {
+    checkpoint: { ...checkpoint, savedAt: Date.now(), paused: false },
+    sealedMove,
+    adjournedAt: Date.now()
+  };
+  const others = listAdjournedGames().filter(game => game.checkpoint.state.id !== checkpoint.state.id);
+  saveAdjournedGames([adjourned, ...others]);
+}
+
+/**
+ * Takes a game out of adjournment so it can be played on
+ * @param id The game's identifier
+ * @returns The game, or null if it is not adjourned
+ */
+export function takeAdjournedGame(id: string): AdjournedGame | null {
+  const games = listAdjournedGames();
+  const game = games.find(entry => entry.checkpoint.state.id === id);
+  if (!game) {
+    return null;
+  }
+  saveAdjournedGames(games.filter(entry => entry !== game));
+  return game;
+}
@@ -0,0 +1,74 @@
+import { TimeControl, chargeableTime, timeCreditAfterMove } from '@/lib/time-control';
+
+/**
+ * Reads the monotonic clock. Unlike Date.now() it is unaffected by system
+ * clock changes, and unlike counting interval ticks it does not drift when
+ * the tab is throttled.
+ * @returns Current timestamp in milliseconds
+ */
+export function clockNow(): number {
+  return performance.now();
+}
+
+/**
+ * Computes the time shown on the clock of the side to move
+ * @param timeControl The time control in use
+ * @param timeLeft Time remaining when the turn began, in milliseconds
+ * @param moveNumber The player's move number, starting at 1
+ * @param turnStartedAt Timestamp at which the turn began
+ * @param at Timestamp to evaluate the clock at
+ * @returns Remaining time in milliseconds, never negative
+ */
+export function remainingTime(
+  timeControl: TimeControl,
+  timeLeft: number,
+  moveNumber: number,
+  turnStartedAt: number,
+  at: number = clockNow()
+): number {
+  const elapsed = Math.max(0, at - turnStartedAt);
+  return Math.max(0, timeLeft - chargeableTime(timeControl, moveNumber, elapsed));
+}
+
+/**
+ * Computes a player's clock once they complete a move, deducting exactly the
+ * time they spent and crediting any increment, delay or stage bonus
+ * @param timeControl The time control in use
+ * @param timeLeft Time remaining when the turn began, in milliseconds
+ * @param moveNumber The move just completed, starting at 1
+ * @param elapsed Real time spent on the move, in milliseconds
+ * @returns The new remaining time in milliseconds
+ */
+export function timeAfterMove(
+  timeControl: TimeControl,
+  timeLeft: number,
+  moveNumber: number,
+  elapsed: number
+): number {
+  const remaining = Math.max(0, timeLeft - chargeableTime(timeControl, moveNumber, elapsed));
+  return remaining + timeCreditAfterMove(timeControl, moveNumber, elapsed);
+}
+
+/**
+ * Formats a clock reading, showing tenths of a second below ten seconds
+ * @param ms Remaining time in milliseconds
+ * @returns Formatted time such as "1:05:00", "4:59" or "0:09.4"
+ */
+export function formatClock(ms: number): string {
+  const clamped = Math.max(0, ms);
+
+  if (clamped < 10000) {
+    const tenths = Math.floor(clamped / 100);
+    return `0:0${Math.floor(tenths / 10)}.${tenths % 10}`;
+  }
+
+  const totalSeconds = Math.floor(clamped / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
@@ -74,4 +74,459 @@ export function positionToAlgebraic(position: ChessPosition): string | null {
   const file = String.fromCharCode('a'.charCodeAt(0) + position.x);
   const rank = position.y + 1;
   return `${file}${rank}`;
-}
\ No newline at end of file
+}
+
+// Pieces and the positions they make up, as read from and written to FEN
+export type PieceColor = 'w' | 'b';
+export type PieceType = 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
+
+export interface PlacedPiece {
+  color: PieceColor;
+  type: PieceType;
+  position: ChessPosition;
+}
+
+export interface CastlingRights {
+  whiteKingside: boolean;
+  whiteQueenside: boolean;
+  blackKingside: boolean;
+  blackQueenside: boolean;
+}
+
+// Everything a FEN records: the pieces plus the state of the game around them
+export interface Position {
+  pieces: PlacedPiece[];
+  turn: PieceColor;
+  castling: CastlingRights;
+  // Square a pawn can be captured on en passant, or null
+  enPassant: ChessPosition | null;
+  // Half-moves since the last capture or pawn move
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+export type FenErrorCode =
+  | 'field-count'
+  | 'rank-count'
+  | 'rank-length'
+  | 'unknown-piece'
+  | 'turn'
+  | 'castling'
+  | 'en-passant'
+  | 'move-counter'
+  | 'king-count'
+  | 'pawn-rank'
+  | 'pawn-count'
+  | 'piece-count'
+  | 'opponent-in-check';
+
+// One problem with a FEN, with a message fit to show the user
+export interface FenError {
+  code: FenErrorCode;
+  message: string;
+}
+
+// A parsed FEN: the position when it could be read, otherwise what stopped it
+export interface FenParseResult {
+  position: Position | null;
+  errors: FenError[];
+}
+
+export const NO_CASTLING: CastlingRights = {
+  whiteKingside: false,
+  whiteQueenside: false,
+  blackKingside: false,
+  blackQueenside: false
+};
+
+export const STANDARD_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const PIECE_TYPES: PieceType[] = ['p', 'n', 'b', 'r', 'q', 'k'];
+const COLOR_NAMES: Record<PieceColor, string> = { w: 'White', b: 'Black' };
+const CASTLING_NAMES: Record<keyof CastlingRights, string> = {
+  whiteKingside: 'White kingside',
+  whiteQueenside: 'White queenside',
+  blackKingside: 'Black kingside',
+  blackQueenside: 'Black queenside'
+};
+
+const samePosition = (a: ChessPosition, b: ChessPosition) => a.x === b.x && a.y === b.y;
+
+/**
+ * Finds the piece standing on a square
+ * @param pieces The pieces on the board
+ * @param position The square
+ * @returns The piece, or undefined if the square is empty
+ */
+export function pieceAt(pieces: PlacedPiece[], position: ChessPosition): PlacedPiece | undefined {
+  return pieces.find(piece => samePosition(piece.position, position));
+}
+
+/**
+ * Puts a piece on a square, replacing whatever stood there
+ * @param pieces The pieces on the board
+ * @param piece The piece and its square
+ * @returns The updated pieces, or the same pieces if the square is off the board
+ */
+export function placePiece(pieces: PlacedPiece[], piece: PlacedPiece): PlacedPiece[] {
+  if (!isValidPosition(piece.position)) {
+    return pieces;
+  }
+  return [...removePiece(pieces, piece.position), piece];
+}
+
+/**
+ * Clears a square
+ * @param pieces The pieces on the board
+ * @param position The square to clear
+ * @returns The pieces without the one on that square
+ */
+export function removePiece(pieces: PlacedPiece[], position: ChessPosition): PlacedPiece[] {
+  return pieces.filter(piece => !samePosition(piece.position, position));
+}
+
+// Reads the piece placement field, noting each malformed rank
+function readPlacement(placement: string, errors: FenError[]): PlacedPiece[] {
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    errors.push({ code: 'rank-count', message: `Piece placement has ${ranks.length} ranks instead of 8` });
+    return [];
+  }
+
+  const pieces: PlacedPiece[] = [];
+  ranks.forEach((rank, index) => {
+    const y = 7 - index;
+    let x = 0;
+    for (const symbol of rank) {
+      if (/[1-8]/.test(symbol)) {
+        x += parseInt(symbol);
+        continue;
+      }
+      const type = symbol.toLowerCase() as PieceType;
+      if (!PIECE_TYPES.includes(type)) {
+        errors.push({ code: 'unknown-piece', message: `Rank ${y + 1} contains "${symbol}", which is not a piece` });
+        return;
+      }
+      if (x < 8) {
+        pieces.push({ color: symbol === type ? 'b' : 'w', type, position: { x, y } });
+      }
+      x++;
+    }
+    if (x !== 8) {
+      errors.push({ code: 'rank-length', message: `Rank ${y + 1} covers ${x} squares instead of 8` });
+    }
+  });
+  return pieces;
+}
+
+// Reads a move counter, which must be a whole number no smaller than the minimum
+function readCounter(field: string | undefined, fallback: number, minimum: number, name: string, errors: FenError[]): number {
+  if (field === undefined) {
+    return fallback;
+  }
+  const value = /^\d+$/.test(field) ? parseInt(field) : NaN;
+  if (Number.isNaN(value) || value < minimum) {
+    errors.push({ code: 'move-counter', message: `The ${name} must be a whole number of at least ${minimum}, not "${field}"` });
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Parses a FEN, checking its syntax field by field. The move counters may be
+ * left out, as some tools do; they then default to 0 and 1.
+ * @param fen The FEN
+ * @returns The position, or every syntax error found
+ */
+export function parseFen(fen: string): FenParseResult {
+  const errors: FenError[] = [];
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 4 || fields.length > 6) {
+    return {
+      position: null,
+      errors: [{ code: 'field-count', message: `A FEN has 4 to 6 fields separated by spaces, this one has ${fields.length}` }]
+    };
+  }
+  const [placement, turn, castling, enPassant, halfmove, fullmove] = fields;
+
+  const pieces = readPlacement(placement, errors);
+
+  if (turn !== 'w' && turn !== 'b') {
+    errors.push({ code: 'turn', message: `Side to move must be "w" or "b", not "${turn}"` });
+  }
+
+  if (castling !== '-' && !/^K?Q?k?q?$/.test(castling)) {
+    errors.push({ code: 'castling', message: `Castling rights must be "-" or some of "KQkq" in that order, not "${castling}"` });
+  }
+
+  const enPassantSquare = enPassant === '-' ? null : algebraicToPosition(enPassant);
+  if (enPassant !== '-' && (!enPassantSquare || (enPassantSquare.y !== 2 && enPassantSquare.y !== 5))) {
+    errors.push({ code: 'en-passant', message: `En passant square must be "-" or a square on the third or sixth rank, not "${enPassant}"` });
+  }
+
+  const halfmoveClock = readCounter(halfmove, 0, 0, 'halfmove clock', errors);
+  const fullmoveNumber = readCounter(fullmove, 1, 1, 'fullmove number', errors);
+
+  if (errors.length > 0) {
+    return { position: null, errors };
+  }
+  return {
+    errors: [],
+    position: {
+      pieces,
+      turn: turn as PieceColor,
+      castling: {
+        whiteKingside: castling.includes('K'),
+        whiteQueenside: castling.includes('Q'),
+        blackKingside: castling.includes('k'),
+        blackQueenside: castling.includes('q')
+      },
+      enPassant: enPassantSquare,
+      halfmoveClock,
+      fullmoveNumber
+    }
+  };
+}
+
+/**
+ * Writes the piece placement field of a FEN
+ * @param pieces The pieces on the board
+ * @returns Ranks from the eighth to the first, separated by slashes
+ */
+export function writePlacement(pieces: PlacedPiece[]): string {
+  const ranks: string[] = [];
+  for (let y = 7; y >= 0; y--) {
+    let rank = '';
+    let empty = 0;
+    for (let x = 0; x < 8; x++) {
+      const piece = pieceAt(pieces, { x, y });
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) {
+        rank += empty;
+        empty = 0;
+      }
+      rank += piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+    }
+    ranks.push(empty > 0 ? rank + empty : rank);
+  }
+  return ranks.join('/');
+}
+
+/**
+ * Writes a position as a FEN
+ * @param position The position
+ * @returns The FEN
+ */
+export function writeFen(position: Position): string {
+  const { castling } = position;
+  const rights = [
+    castling.whiteKingside ? 'K' : '',
+    castling.whiteQueenside ? 'Q' : '',
+    castling.blackKingside ? 'k' : '',
+    castling.blackQueenside ? 'q' : ''
+  ].join('') || '-';
+  const enPassant = position.enPassant ? positionToAlgebraic(position.enPassant) ?? '-' : '-';
+  return [
+    writePlacement(position.pieces),
+    position.turn,
+    rights,
+    enPassant,
+    position.halfmoveClock,
+    position.fullmoveNumber
+  ].join(' ');
+}
+
+/**
+ * Creates an empty board with White to move
+ * @returns The position
+ */
+export function emptyPosition(): Position {
+  return { pieces: [], turn: 'w', castling: { ...NO_CASTLING }, enPassant: null, halfmoveClock: 0, fullmoveNumber: 1 };
+}
+
+/**
+ * Creates the standard starting position
+ * @returns The position
+ */
+export function standardPosition(): Position {
+  const parsed = parseFen(STANDARD_FEN);
+  return parsed.position ?? emptyPosition();
+}
+
+/**
+ * Works out which castling rights the pieces allow: the king and the rook
+ * must both stand on their starting squares
+ * @param pieces The pieces on the board
+ * @returns The rights that may be granted
+ */
+export function possibleCastling(pieces: PlacedPiece[]): CastlingRights {
+  const has = (color: PieceColor, type: PieceType, x: number) => {
+    const piece = pieceAt(pieces, { x, y: color === 'w' ? 0 : 7 });
+    return piece?.color === color && piece.type === type;
+  };
+  return {
+    whiteKingside: has('w', 'k', 4) && has('w', 'r', 7),
+    whiteQueenside: has('w', 'k', 4) && has('w', 'r', 0),
+    blackKingside: has('b', 'k', 4) && has('b', 'r', 7),
+    blackQueenside: has('b', 'k', 4) && has('b', 'r', 0)
+  };
+}
+
+/**
+ * Lists the squares a pawn could be captured on en passant: a pawn of the
+ * side that just moved must stand in front of the square, with the square
+ * and the one it came from empty
+ * @param pieces The pieces on the board
+ * @param turn The side to move
+ * @returns The candidate squares
+ */
+export function enPassantSquares(pieces: PlacedPiece[], turn: PieceColor): ChessPosition[] {
+  const mover: PieceColor = turn === 'w' ? 'b' : 'w';
+  // Rank the pawn skipped over, and the direction it moved in
+  const y = turn === 'w' ? 5 : 2;
+  const forward = mover === 'w' ? 1 : -1;
+  const squares: ChessPosition[] = [];
+  for (let x = 0; x < 8; x++) {
+    const pawn = pieceAt(pieces, { x, y: y + forward });
+    if (
+      pawn?.color === mover && pawn.type === 'p' &&
+      !pieceAt(pieces, { x, y }) &&
+      !pieceAt(pieces, { x, y: y - forward })
+    ) {
+      squares.push({ x, y });
+    }
+  }
+  return squares;
+}
+
+const KNIGHT_STEPS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const KING_STEPS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+const ROOK_DIRECTIONS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const BISHOP_DIRECTIONS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+/**
+ * Checks whether a side attacks a square
+ * @param pieces The pieces on the board
+ * @param target The square
+ * @param by The attacking side
+ * @returns True if any piece of that side attacks the square
+ */
+export function isSquareAttacked(pieces: PlacedPiece[], target: ChessPosition, by: PieceColor): boolean {
+  const attackerAt = (x: number, y: number, types: PieceType[]) => {
+    const piece = pieceAt(pieces, { x, y });
+    return piece?.color === by && types.includes(piece.type);
+  };
+
+  // Pawns attack diagonally forward, so the attacker stands one rank behind the target
+  const pawnY = target.y - (by === 'w' ? 1 : -1);
+  if (attackerAt(target.x - 1, pawnY, ['p']) || attackerAt(target.x + 1, pawnY, ['p'])) {
+    return true;
+  }
+  if (KNIGHT_STEPS.some(([dx, dy]) => attackerAt(target.x + dx, target.y + dy, ['n']))) {
+    return true;
+  }
+  if (KING_STEPS.some(([dx, dy]) => attackerAt(target.x + dx, target.y + dy, ['k']))) {
+    return true;
+  }
+
+  // Sliding pieces attack along their lines up to the first piece in the way
+  const slides = (directions: number[][], types: PieceType[]) => directions.some(([dx, dy]) => {
+    for (let x = target.x + dx, y = target.y + dy; isValidPosition({ x, y }); x += dx, y += dy) {
+      const piece = pieceAt(pieces, { x, y });
+      if (piece) {
+        return piece.color === by && types.includes(piece.type);
+      }
+    }
+    return false;
+  });
+  return slides(ROOK_DIRECTIONS, ['r', 'q']) || slides(BISHOP_DIRECTIONS, ['b', 'q']);
+}
+
+/**
+ * Checks that a position could arise in a game: one king each, no pawns on
+ * the back ranks, no more pieces than promotions allow, castling rights that
+ * match the pieces, an en passant square a pawn has just skipped over, and
+ * the side that just moved not left in check
+ * @param position The position
+ * @returns Problems found, empty if the position is playable
+ */
+export function validatePosition(position: Position): FenError[] {
+  const errors: FenError[] = [];
+  const { pieces, turn } = position;
+
+  for (const color of ['w', 'b'] as PieceColor[]) {
+    const name = COLOR_NAMES[color];
+    const count = (type: PieceType) => pieces.filter(piece => piece.color === color && piece.type === type).length;
+
+    const kings = count('k');
+    if (kings !== 1) {
+      errors.push({ code: 'king-count', message: kings === 0 ? `${name} has no king` : `${name} has ${kings} kings` });
+    }
+
+    const pawns = count('p');
+    if (pawns > 8) {
+      errors.push({ code: 'pawn-count', message: `${name} has ${pawns} pawns, but starts with only 8` });
+    }
+
+    // Every piece beyond the starting set must be a promoted pawn
+    const promoted = Math.max(0, count('q') - 1) + Math.max(0, count('r') - 2) +
+      Math.max(0, count('b') - 2) + Math.max(0, count('n') - 2);
+    const total = pieces.filter(piece => piece.color === color).length;
+    if (total > 16) {
+      errors.push({ code: 'piece-count', message: `${name} has ${total} pieces, but starts with only 16` });
+    } else if (pawns <= 8 && promoted > 8 - pawns) {
+      errors.push({
+        code: 'piece-count',
+        message: `${name} has ${promoted} promoted pieces but only ${8 - pawns} pawns could have promoted`
+      });
+    }
+  }
+
+  if (pieces.some(piece => piece.type === 'p' && (piece.position.y === 0 || piece.position.y === 7))) {
+    errors.push({ code: 'pawn-rank', message: 'Pawns cannot stand on the first or eighth rank' });
+  }
+
+  const allowed = possibleCastling(pieces);
+  const impossible = (Object.keys(allowed) as (keyof CastlingRights)[])
+    .filter(right => position.castling[right] && !allowed[right]);
+  if (impossible.length > 0) {
+    errors.push({
+      code: 'castling',
+      message: 'Castling rights need the king and that rook on their starting squares: ' +
+        impossible.map(right => CASTLING_NAMES[right]).join(', ')
+    });
+  }
+
+  const { enPassant } = position;
+  if (enPassant && !enPassantSquares(pieces, turn).some(square => square.x === enPassant.x && square.y === enPassant.y)) {
+    const name = positionToAlgebraic(enPassant);
+    errors.push({
+      code: 'en-passant',
+      message: `No ${COLOR_NAMES[turn === 'w' ? 'b' : 'w']} pawn can have just skipped over ${name}`
+    });
+  }
+
+  // The side that just moved cannot have left its own king in check
+  const waiting: PieceColor = turn === 'w' ? 'b' : 'w';
+  const waitingKings = pieces.filter(piece => piece.color === waiting && piece.type === 'k');
+  if (waitingKings.length === 1 && isSquareAttacked(pieces, waitingKings[0].position, turn)) {
+    errors.push({
+      code: 'opponent-in-check',
+      message: `${COLOR_NAMES[waiting]} is in check but it is ${COLOR_NAMES[turn]}'s turn`
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Parses and validates a FEN in one go, for import forms
+ * @param fen The FEN
+ * @returns Syntax errors if there are any, otherwise problems with the position; empty if it is playable
+ */
+export function fenErrors(fen: string): FenError[] {
+  const parsed = parseFen(fen);
+  return parsed.position ? validatePosition(parsed.position) : parsed.errors;
+}
@@ -0,0 +1,354 @@
+import { Chess, Color, Move, PieceSymbol, Square } from 'chess.js';
+
+// Chess960 (Fischer Random) start positions and castling on top of chess.js
+
+// Number of the standard start position in the Scharnagl numbering
+export const STANDARD_CHESS960_POSITION = 518;
+export const CHESS960_POSITION_COUNT = 960;
+
+const FILES = 'abcdefgh';
+
+// Knight placements among the five squares left once bishops and queen are placed
+const KNIGHT_PLACEMENTS = [[0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]];
+
+/**
+ * Works out the back rank of a Chess960 start position
+ * @param number Position number from 0 to 959, Scharnagl numbering
+ * @returns White's pieces from the a-file to the h-file, e.g. "RNBQKBNR" for 518
+ */
+export function chess960BackRank(number: number): string {
+  if (!Number.isInteger(number) || number < 0 || number >= CHESS960_POSITION_COUNT) {
+    throw new Error(`Chess960 position must be a whole number from 0 to ${CHESS960_POSITION_COUNT - 1}`);
+  }
+
+  const rank: (string | null)[] = Array(8).fill(null);
+  let rest = number;
+
+  // One bishop on a light square, one on a dark square
+  rank[(rest % 4) * 2 + 1] = 'B';
+  rest = Math.floor(rest / 4);
+  rank[(rest % 4) * 2] = 'B';
+  rest = Math.floor(rest / 4);
+
+  const emptyFiles = () => rank.flatMap((piece, file) => (piece ? [] : [file]));
+
+  rank[emptyFiles()[rest % 6]] = 'Q';
+  rest = Math.floor(rest / 6);
+
+  const [first, second] = KNIGHT_PLACEMENTS[rest];
+  const knightFiles = emptyFiles();
+  rank[knightFiles[first]] = 'N';
+  rank[knightFiles[second]] = 'N';
+
+  // The king always stands between the rooks
+  const [left, middle, right] = emptyFiles();
+  rank[left] = 'R';
+  rank[middle] = 'K';
+  rank[right] = 'R';
+
+  return rank.join('');
+}
+
+/**
+ * Builds the FEN of a Chess960 start position
+ * @param number Position number from 0 to 959
+ * @returns FEN with X-FEN castling rights
+ */
+export function chess960Fen(number: number): string {
+  const backRank = chess960BackRank(number);
+  return `${backRank.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${backRank} w KQkq - 0 1`;
+}
+
+/**
+ * Picks one of the 960 start positions at random
+ * @returns Position number from 0 to 959
+ */
+export function randomChess960Position(): number {
+  return Math.floor(Math.random() * CHESS960_POSITION_COUNT);
+}
+
+/**
+ * Drops the castling rights from a FEN, for tools that only know standard castling
+ * @param fen FEN of a Chess960 position
+ * @returns The same position with no castling rights
+ */
+export function withoutCastling(fen: string): string {
+  const fields = fen.split(' ');
+  fields[2] = '-';
+  return fields.join(' ');
+}
+
+type CastlingSide = 'k' | 'q';
+
+interface CastlingOption {
+  side: CastlingSide;
+  king: Square;
+  rook: Square;
+  kingTo: Square;
+  rookTo: Square;
+}
+
+const backRankOf = (color: Color) => (color === 'w' ? '1' : '8');
+const fileOf = (square: Square) => FILES.indexOf(square[0]);
+const squareOf = (file: number, color: Color) => `${FILES[file]}${backRankOf(color)}` as Square;
+
+// Writes the piece placement field of a FEN from a map of occupied squares
+function placementField(pieces: Map<Square, { type: PieceSymbol; color: Color }>): string {
+  const ranks: string[] = [];
+  for (let rank = 8; rank >= 1; rank--) {
+    let row = '';
+    let empty = 0;
+    for (const file of FILES) {
+      const piece = pieces.get(`${file}${rank}` as Square);
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) row += empty;
+      empty = 0;
+      row += piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+    }
+    ranks.push(empty > 0 ? row + empty : row);
+  }
+  return ranks.join('/');
+}
+
+/**
+ * A chess.js game that follows the Chess960 castling rules. The king castles
+ * by moving onto its own rook; it lands on the g- or c-file with the rook
+ * beside it on the f- or d-file, as in standard chess. FENs use X-FEN
+ * castling rights: K and Q for the outermost rook on each side, file letters
+ * for any other. Castling rebuilds the position, so undo() is not supported;
+ * replay the moves instead.
+ */
+export class Chess960 extends Chess {
+  // Rooks each side may still castle with; unset while chess.js sets up the board
+  private castlingRooks?: Record<Color, Square[]>;
+
+  constructor(fen: string = chess960Fen(STANDARD_CHESS960_POSITION)) {
+    const fields = fen.trim().split(/\s+/);
+    // chess.js only understands standard castling, so it is handled here instead
+    super([fields[0], fields[1], '-', ...fields.slice(3)].join(' '));
+    this.castlingRooks = this.parseCastling(fields[2] ?? '-');
+  }
+
+  fen(): string {
+    const fields = super.fen().split(' ');
+    if (this.castlingRooks) {
+      fields[2] = this.castlingField();
+    }
+    return fields.join(' ');
+  }
+
+  moves(): string[];
+  moves(options: { square?: Square; piece?: PieceSymbol; verbose?: false }): string[];
+  moves(options: { square?: Square; piece?: PieceSymbol; verbose: true }): Move[];
+  moves(options: { square?: Square; piece?: PieceSymbol; verbose?: boolean } = {}): string[] | Move[] {
+    const { square, piece, verbose } = options;
+    const castling = this.castlingOptions()
+      .filter(option => (!square || square === option.king) && (!piece || piece === 'k'))
+      .map(option => this.castlingMove(option));
+
+    if (verbose) {
+      return [...super.moves({ square, piece, verbose: true }), ...castling];
+    }
+    return [...super.moves({ square, piece }), ...castling.map(move => move.san)];
+  }
+
+  move(move: string | { from: string; to: string; promotion?: string | null }, options?: { strict?: boolean }): Move {
+    const castling = this.findCastling(move);
+    if (castling) {
+      const played = this.castlingMove(castling);
+      const rooks = this.castlingRooks!;
+      this.load(withoutCastling(played.after), { preserveHeaders: true });
+      this.castlingRooks = { ...rooks, [played.color]: [] };
+      return played;
+    }
+
+    const color = this.turn();
+    const played = super.move(move, options);
+    const rooks = this.castlingRooks!;
+    const them: Color = color === 'w' ? 'b' : 'w';
+    this.castlingRooks = {
+      // Moving the king gives up both rights, moving a rook gives up its own
+      [color]: played.piece === 'k' ? [] : rooks[color].filter(square => square !== played.from),
+      // Capturing a rook takes away its right
+      [them]: rooks[them].filter(square => square !== played.to)
+    } as Record<Color, Square[]>;
+    played.after = this.fen();
+    return played;
+  }
+
+  isStalemate(): boolean {
+    // chess.js does not know the side to move may still be able to castle
+    return super.isStalemate() && this.castlingOptions().length === 0;
+  }
+
+  /**
+   * Not supported: castling rebuilds the position and drops the history
+   * @throws Error always
+   */
+  undo(): Move | null {
+    throw new Error('Chess960 games cannot undo moves; replay them instead');
+  }
+
+  // Reads X-FEN or Shredder-FEN castling rights into the rooks that may castle
+  private parseCastling(field: string): Record<Color, Square[]> {
+    const rooks: Record<Color, Square[]> = { w: [], b: [] };
+    for (const letter of field) {
+      if (letter === '-') continue;
+      const color: Color = letter === letter.toUpperCase() ? 'w' : 'b';
+      const king = this.backRankKing(color);
+      if (!king) continue;
+
+      const isRook = (file: number) => {
+        const piece = this.get(squareOf(file, color));
+        return piece?.type === 'r' && piece.color === color;
+      };
+      const lower = letter.toLowerCase();
+      let file = -1;
+      if (lower === 'k') {
+        // The outermost rook on the king's side
+        for (let f = 7; f > fileOf(king) && file < 0; f--) if (isRook(f)) file = f;
+      } else if (lower === 'q') {
+        for (let f = 0; f < fileOf(king) && file < 0; f++) if (isRook(f)) file = f;
+      } else if (FILES.includes(lower) && isRook(FILES.indexOf(lower))) {
+        file = FILES.indexOf(lower);
+      }
+
+      const rook = file >= 0 ? squareOf(file, color) : null;
+      if (rook && !rooks[color].includes(rook)) {
+        rooks[color].push(rook);
+      }
+    }
+    return rooks;
+  }
+
+  // Writes castling rights as X-FEN, naming a rook by its file only when K or Q would be ambiguous
+  private castlingField(): string {
+    const field = (['w', 'b'] as Color[]).map(color => {
+      const king = this.backRankKing(color);
+      if (!king) return '';
+      const kingFile = fileOf(king);
+      const backRankRooks = FILES.split('')
+        .map((_, file) => file)
+        .filter(file => {
+          const piece = this.get(squareOf(file, color));
+          return piece?.type === 'r' && piece.color === color;
+        });
+
+      return this.castlingRooks![color]
+        .map(fileOf)
+        .sort((a, b) => b - a)
+        .map(file => {
+          const kingside = file > kingFile;
+          const outermost = kingside
+            ? !backRankRooks.some(other => other > file)
+            : !backRankRooks.some(other => other < file);
+          const letter = outermost ? (kingside ? 'k' : 'q') : FILES[file];
+          return color === 'w' ? letter.toUpperCase() : letter;
+        })
+        .join('');
+    }).join('');
+    return field || '-';
+  }
+
+  // The king's square if it stands on its own back rank
+  private backRankKing(color: Color): Square | null {
+    for (let file = 0; file < 8; file++) {
+      const piece = this.get(squareOf(file, color));
+      if (piece?.type === 'k' && piece.color === color) return squareOf(file, color);
+    }
+    return null;
+  }
+
+  // Lists the castling moves open to the side to move
+  private castlingOptions(): CastlingOption[] {
+    const color = this.turn();
+    const king = this.backRankKing(color);
+    if (!this.castlingRooks || !king || this.isCheck()) return [];
+
+    const them: Color = color === 'w' ? 'b' : 'w';
+    return this.castlingRooks[color].flatMap(rook => {
+      const side: CastlingSide = fileOf(rook) > fileOf(king) ? 'k' : 'q';
+      const kingTo = squareOf(side === 'k' ? 6 : 2, color);
+      const rookTo = squareOf(side === 'k' ? 5 : 3, color);
+      const files = [king, rook, kingTo, rookTo].map(fileOf);
+
+      // Everything the king and rook cross or land on must be empty but for the two of them
+      for (let file = Math.min(...files); file <= Math.max(...files); file++) {
+        const square = squareOf(file, color);
+        if (square !== king && square !== rook && this.get(square)) return [];
+      }
+
+      // The king may not pass through or land on an attacked square
+      const probe = new Chess(this.positionFen([king, rook], []), { skipValidation: true });
+      const step = Math.sign(fileOf(kingTo) - fileOf(king));
+      for (let file = fileOf(king); ; file += step) {
+        if (probe.isAttacked(squareOf(file, color), them)) return [];
+        if (file === fileOf(kingTo)) break;
+      }
+
+      return [{ side, king, rook, kingTo, rookTo }];
+    });
+  }
+
+  // FEN of the current position with some pieces lifted and others placed, castling left out
+  private positionFen(lifted: Square[], placed: [Square, { type: PieceSymbol; color: Color }][]): string {
+    const pieces = new Map<Square, { type: PieceSymbol; color: Color }>();
+    for (const row of this.board()) {
+      for (const piece of row) {
+        if (piece && !lifted.includes(piece.square)) pieces.set(piece.square, piece);
+      }
+    }
+    placed.forEach(([square, piece]) => pieces.set(square, piece));
+    const [, turn, , , halfmove, fullmove] = super.fen().split(' ');
+    return [placementField(pieces), turn, '-', '-', halfmove, fullmove].join(' ');
+  }
+
+  // Builds the move object for castling, position after it included
+  private castlingMove(option: CastlingOption): Move {
+    const color = this.turn();
+    const [placement, , , , halfmove, fullmove] = this.positionFen(
+      [option.king, option.rook],
+      [[option.kingTo, { type: 'k', color }], [option.rookTo, { type: 'r', color }]]
+    ).split(' ');
+
+    const rooks = { ...this.castlingRooks!, [color]: [] };
+    const next = new Chess960(withoutCastling([
+      placement,
+      color === 'w' ? 'b' : 'w',
+      '-',
+      '-',
+      String(parseInt(halfmove) + 1),
+      String(parseInt(fullmove) + (color === 'b' ? 1 : 0))
+    ].join(' ')));
+    next.castlingRooks = rooks;
+
+    const suffix = next.isCheckmate() ? '#' : next.isCheck() ? '+' : '';
+    // Move's constructor needs chess.js internals, so the object is put together directly
+    return Object.assign(Object.create(Move.prototype) as Move, {
+      color,
+      from: option.king,
+      to: option.rook,
+      piece: 'k' as PieceSymbol,
+      flags: option.side,
+      san: `${option.side === 'k' ? 'O-O' : 'O-O-O'}${suffix}`,
+      lan: `${option.king}${option.rook}`,
+      before: this.fen(),
+      after: next.fen()
+    });
+  }
+
+  // Recognises castling written as O-O / O-O-O or as the king moving onto its rook
+  private findCastling(move: string | { from: string; to: string }): CastlingOption | null {
+    const options = this.castlingOptions();
+    if (typeof move === 'string') {
+      const san = move.replace(/[+#?!]+$/, '').replace(/0/g, 'O');
+      if (san === 'O-O') return options.find(option => option.side === 'k') ?? null;
+      if (san === 'O-O-O') return options.find(option => option.side === 'q') ?? null;
+      return null;
+    }
+    return options.find(option => option.king === move.from && option.rook === move.to) ?? null;
+  }
+}
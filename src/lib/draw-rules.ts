@@ -0,0 +1,142 @@
+import { Chess } from 'chess.js';
+
+// Ways a game can end in a draw under the FIDE Laws of Chess
+export type DrawReason =
+  | 'stalemate'
+  | 'insufficient-material'
+  | 'threefold-repetition'
+  | 'fivefold-repetition'
+  | 'fifty-move'
+  | 'seventy-five-move'
+  | 'agreement';
+
+export const DRAW_REASON_MESSAGES: Record<DrawReason, string> = {
+  'stalemate': 'Draw by stalemate',
+  'insufficient-material': 'Draw by insufficient material',
+  'threefold-repetition': 'Draw by threefold repetition',
+  'fivefold-repetition': 'Draw by fivefold repetition',
+  'fifty-move': 'Draw by the 50-move rule',
+  'seventy-five-move': 'Draw by the 75-move rule',
+  'agreement': 'Draw by agreement'
+};
+
+/**
+ * Reduces a FEN to the fields that identify a position for repetition:
+ * placement, side to move, castling rights and en passant square
+ * @param fen The full FEN
+ * @returns The position key
+ */
+export function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+/**
+ * Counts how often the latest position has occurred in the game
+ * @param fens Every position of the game in order, starting position first
+ * @returns Number of occurrences of the final position
+ */
+export function repetitionCount(fens: string[]): number {
+  if (fens.length === 0) {
+    return 0;
+  }
+  const key = positionKey(fens[fens.length - 1]);
+  return fens.filter(fen => positionKey(fen) === key).length;
+}
+
+/**
+ * Reads the number of half-moves since the last capture or pawn move
+ * @param fen The full FEN
+ * @returns The halfmove clock
+ */
+export function halfmoveClock(fen: string): number {
+  return parseInt(fen.split(' ')[4]) || 0;
+}
+
+/**
+ * Lists the draws the player on move may claim in the current position
+ * @param fens Every position of the game in order, starting position first
+ * @returns The claimable draw reasons
+ */
+export function claimableDraws(fens: string[]): DrawReason[] {
+  const claims: DrawReason[] = [];
+  if (repetitionCount(fens) >= 3) {
+    claims.push('threefold-repetition');
+  }
+  if (fens.length > 0 && halfmoveClock(fens[fens.length - 1]) >= 100) {
+    claims.push('fifty-move');
+  }
+  return claims;
+}
+
+/**
+ * Detects draws that end the game without either player claiming them
+ * @param game The current position
+ * @param fens Every position of the game in order, starting position first
+ * @returns The reason the game is drawn, or null if play continues
+ */
+export function automaticDraw(game: Chess, fens: string[]): DrawReason | null {
+  if (game.isStalemate()) {
+    return 'stalemate';
+  }
+  if (game.isInsufficientMaterial()) {
+    return 'insufficient-material';
+  }
+  if (repetitionCount(fens) >= 5) {
+    return 'fivefold-repetition';
+  }
+  // A checkmate on the 75th move still stands
+  if (halfmoveClock(game.fen()) >= 150 && !game.isCheckmate()) {
+    return 'seventy-five-move';
+  }
+  return null;
+}
+
+/**
+ * Determines whether a side could still deliver checkmate by any legal
+ * sequence of moves, however cooperative the opponent. Used to adjudicate
+ * a flag fall: if the side with time left cannot possibly mate, the game
+ * is drawn rather than won on time.
+ * @param game The current position
+ * @param color The side whose mating chances are in question
+ * @returns False only when checkmate by that side is impossible
+ */
+export function canCheckmate(game: Chess, color: 'w' | 'b'): boolean {
+  const own: { type: string; squareColor: 'light' | 'dark' }[] = [];
+  const opponent: { type: string; squareColor: 'light' | 'dark' }[] = [];
+
+  game.board().forEach(row => row.forEach(piece => {
+    if (!piece || piece.type === 'k') return;
+    const entry = { type: piece.type, squareColor: game.squareColor(piece.square) };
+    (piece.color === color ? own : opponent).push(entry);
+  }));
+
+  // Pawns can promote, and a rook or queen can always force or help mate
+  if (own.some(piece => piece.type === 'p' || piece.type === 'r' || piece.type === 'q')) {
+    return true;
+  }
+
+  const knights = own.filter(piece => piece.type === 'n').length;
+  const bishops = own.filter(piece => piece.type === 'b');
+
+  if (knights === 0 && bishops.length === 0) {
+    return false;
+  }
+  if (knights >= 2 || (knights >= 1 && bishops.length >= 1)) {
+    return true;
+  }
+
+  if (knights === 1) {
+    // The mated king needs its own pieces to block its escape squares;
+    // a queen cannot do so without being able to capture the knight
+    return opponent.some(piece => piece.type !== 'q');
+  }
+
+  const bishopColors = new Set(bishops.map(piece => piece.squareColor));
+  if (bishopColors.size > 1) {
+    return true;
+  }
+
+  // Bishops confined to one colour need a blocker on the other colour
+  const [bishopColor] = bishopColors;
+  return opponent.some(piece => piece.type !== 'b' || piece.squareColor !== bishopColor);
+}
@@ -0,0 +1,44 @@
+// Strength settings for the built-in computer opponent
+export interface EngineLevel {
+  level: number;
+  label: string;
+  // Maximum search depth in plies
+  depth: number;
+  // Longest the engine will think about a move, in milliseconds
+  moveTime: number;
+  // Centipawn margin within which a weaker move may be picked at random
+  randomness: number;
+}
+
+export const ENGINE_LEVELS: EngineLevel[] = [
+  { level: 1, label: 'Beginner', depth: 1, moveTime: 300, randomness: 300 },
+  { level: 2, label: 'Novice', depth: 2, moveTime: 500, randomness: 150 },
+  { level: 3, label: 'Casual', depth: 2, moveTime: 800, randomness: 60 },
+  { level: 4, label: 'Club', depth: 3, moveTime: 1500, randomness: 25 },
+  { level: 5, label: 'Strong', depth: 4, moveTime: 3000, randomness: 0 },
+  { level: 6, label: 'Expert', depth: 6, moveTime: 5000, randomness: 0 }
+];
+
+export const DEFAULT_ENGINE_LEVEL = 3;
+
+/**
+ * Looks up the settings for a difficulty level
+ * @param level Level number, clamped to the available range
+ * @returns The level settings
+ */
+export function engineLevel(level: number): EngineLevel {
+  return ENGINE_LEVELS.find(entry => entry.level === level)
+    ?? (level < ENGINE_LEVELS[0].level ? ENGINE_LEVELS[0] : ENGINE_LEVELS[ENGINE_LEVELS.length - 1]);
+}
+
+/**
+ * Decides how long the engine may think so it does not lose on time
+ * @param level The difficulty level
+ * @param timeLeft Engine's remaining clock time in milliseconds
+ * @param increment Time added after each move in milliseconds
+ * @returns Thinking time in milliseconds
+ */
+export function engineMoveTime(level: EngineLevel, timeLeft: number, increment = 0): number {
+  // Spend about a twentieth of the remaining time plus half the increment, but always move
+  return Math.max(50, Math.min(level.moveTime, Math.floor(timeLeft / 20 + increment / 2)));
+}
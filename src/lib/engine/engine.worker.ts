@@ -0,0 +1,151 @@
+import { Chess, DEFAULT_POSITION, validateFen } from 'chess.js';
+import { SearchResult, search } from '@/lib/engine/search';
+import { DEFAULT_ENGINE_LEVEL, ENGINE_LEVELS, EngineLevel, engineLevel, engineMoveTime } from '@/lib/engine/difficulty';
+import { UciGoParams, formatInfo, parseGoCommand, parsePositionCommand } from '@/lib/engine/uci';
+
+// The built-in engine, speaking UCI from a Web Worker
+const MAX_DEPTH = 64;
+const MAX_MULTI_PV = 5;
+
+// Position from the last position command, replayed afresh for each search
+let position = { fen: DEFAULT_POSITION, moves: [] as string[] };
+let skillLevel = DEFAULT_ENGINE_LEVEL;
+let multiPv = 1;
+// Searches are numbered so "stop" ends every search started before it
+let searchCount = 0;
+let stoppedThrough = 0;
+let searching: Promise<void> = Promise.resolve();
+
+const send = (line: string) => self.postMessage(line);
+
+// Lets queued commands such as "stop" run between iterations
+const yieldToMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const buildPosition = () => {
+  const chess = new Chess(position.fen);
+  try {
+    for (const move of position.moves) {
+      chess.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] });
+    }
+  } catch (error) {
+    // Keep the position reached before the illegal move
+    send(`info string ${error instanceof Error ? error.message : 'illegal move'}`);
+  }
+  return chess;
+};
+
+const reportIteration = (result: SearchResult, startedAt: number, lineCount: number) => {
+  const time = Math.round(performance.now() - startedAt);
+  result.lines.forEach((line, index) => send(formatInfo({
+    depth: result.depth,
+    multipv: lineCount > 1 ? index + 1 : undefined,
+    score: line.mate !== undefined ? { type: 'mate', value: line.mate } : { type: 'cp', value: line.score },
+    nodes: result.nodes,
+    nps: time > 0 ? Math.round(result.nodes * 1000 / time) : undefined,
+    time,
+    pv: line.pv
+  })));
+};
+
+// Deepens one ply at a time, checking for "stop" in between
+const runSearch = async (id: number, chess: Chess, level: EngineLevel, lineCount: number, params: UciGoParams) => {
+  const stopped = () => id <= stoppedThrough;
+  const whiteToMove = chess.turn() === 'w';
+  const timeLeft = whiteToMove ? params.wtime : params.btime;
+  const increment = (whiteToMove ? params.winc : params.binc) ?? 0;
+
+  const maxDepth = params.depth ?? (params.infinite ? MAX_DEPTH : level.depth);
+  const budget = params.infinite
+    ? Infinity
+    : params.movetime ?? (timeLeft !== undefined ? engineMoveTime(level, timeLeft, increment) : level.moveTime);
+  // Analysis wants the true best move, not a humanized one
+  const randomness = params.infinite ? 0 : level.randomness;
+
+  const startedAt = performance.now();
+  const deadline = startedAt + budget;
+  let best: SearchResult | null = null;
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    await yieldToMessages();
+    const remaining = deadline - performance.now();
+    if (stopped() || remaining <= 0) break;
+
+    const result = search(chess, {
+      depth,
+      timeLimit: remaining,
+      randomness,
+      multiPv: lineCount,
+      searchMoves: params.searchmoves
+    });
+    if (result.depth < depth && best) break;
+    best = result;
+    if (result.lines.length > 0) {
+      reportIteration(result, startedAt, lineCount);
+    }
+    if (result.depth < depth || (result.mate !== undefined && !params.infinite)) break;
+  }
+
+  // An infinite search only reports its move once told to stop
+  while (params.infinite && !stopped()) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+
+  // Stopped before the first iteration: still answer with a legal move if there is one
+  best ??= search(chess, { depth: 1, timeLimit: 0, searchMoves: params.searchmoves });
+  send(`bestmove ${best.bestMove ?? '(none)'}`);
+};
+
+self.onmessage = (event: MessageEvent<string>) => {
+  const command = String(event.data).trim();
+  const [keyword] = command.split(/\s+/, 1);
+
+  switch (keyword) {
+    case 'uci':
+      send('id name Chess Master');
+      send('id author Chess Master');
+      send(`option name Skill Level type spin default ${DEFAULT_ENGINE_LEVEL} min ${ENGINE_LEVELS[0].level} max ${ENGINE_LEVELS[ENGINE_LEVELS.length - 1].level}`);
+      send(`option name MultiPV type spin default 1 min 1 max ${MAX_MULTI_PV}`);
+      send('uciok');
+      break;
+    case 'isready':
+      send('readyok');
+      break;
+    case 'setoption': {
+      const match = command.match(/^setoption\s+name\s+(.+?)\s+value\s+(\d+)/i);
+      if (match?.[1].toLowerCase() === 'skill level') {
+        skillLevel = parseInt(match[2]);
+      } else if (match?.[1].toLowerCase() === 'multipv') {
+        multiPv = Math.min(MAX_MULTI_PV, Math.max(1, parseInt(match[2])));
+      }
+      break;
+    }
+    case 'ucinewgame':
+      position = { fen: DEFAULT_POSITION, moves: [] };
+      break;
+    case 'position': {
+      const parsed = parsePositionCommand(command);
+      if (parsed && validateFen(parsed.fen).ok) {
+        position = parsed;
+      } else {
+        send('info string invalid position');
+      }
+      break;
+    }
+    case 'go': {
+      // Searches run on their own copy, so the position may change mid-search
+      const id = ++searchCount;
+      const chess = buildPosition();
+      const level = engineLevel(skillLevel);
+      const params = parseGoCommand(command);
+      const lineCount = multiPv;
+      searching = searching.then(() => runSearch(id, chess, level, lineCount, params));
+      break;
+    }
+    case 'stop':
+      stoppedThrough = searchCount;
+      break;
+    case 'quit':
+      self.close();
+      break;
+  }
+};
@@ -0,0 +1,29 @@
+import { EngineTransport } from '@/lib/engine/uci-engine';
+
+// Engines that can be plugged in behind the UCI adapter
+export interface EngineDefinition {
+  id: string;
+  name: string;
+  // Starts a fresh engine process speaking UCI
+  create: () => EngineTransport;
+}
+
+export const ENGINES: EngineDefinition[] = [
+  {
+    id: 'builtin',
+    name: 'Built-in engine',
+    create: () => new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' })
+  }
+];
+
+export const DEFAULT_ENGINE_ID = 'builtin';
+
+/**
+ * Looks up an engine by id
+ * @param id Engine id
+ * @returns The engine, falling back to the default one
+ */
+export function engineDefinition(id: string): EngineDefinition {
+  return ENGINES.find(engine => engine.id === id)
+    ?? ENGINES.find(engine => engine.id === DEFAULT_ENGINE_ID);
+}
@@ -0,0 +1,85 @@
+import { Chess } from 'chess.js';
+import { UciScore } from '@/lib/engine/uci';
+
+/**
+ * Turns an engine score around so it is from White's point of view
+ * @param score Score from the side to move's point of view
+ * @param turn The side to move in the evaluated position
+ * @returns Score that is positive when White is better
+ */
+export function whiteScore(score: UciScore, turn: 'w' | 'b'): UciScore {
+  if (turn === 'w') {
+    return score;
+  }
+  const bound = score.bound && (score.bound === 'lower' ? 'upper' : 'lower');
+  return { ...score, value: -score.value, ...(bound && { bound }) };
+}
+
+/**
+ * Formats a score the way chess software usually shows it
+ * @param score The score
+ * @returns Text such as "+0.35", "-1.20", "#3" or "#-2"
+ */
+export function formatScore(score: UciScore): string {
+  if (score.type === 'mate') {
+    return `#${score.value}`;
+  }
+  const pawns = score.value / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+/**
+ * Estimates how likely White is to win from a score, for drawing the evaluation bar
+ * @param score Score from White's point of view
+ * @returns A value between 0 (Black wins) and 1 (White wins), 0.5 when level
+ */
+export function whiteWinningChance(score: UciScore): number {
+  if (score.type === 'mate') {
+    return score.value > 0 ? 1 : 0;
+  }
+  // Logistic curve so a few pawns' advantage already fills most of the bar
+  return 1 / (1 + Math.exp(-0.00368208 * score.value));
+}
+
+/**
+ * Converts an engine line to standard algebraic notation
+ * @param fen Position the line starts from
+ * @param pv Moves in UCI notation
+ * @returns The moves in SAN, stopping at the first move that is not legal
+ */
+export function pvToSan(fen: string, pv: string[]): string[] {
+  const chess = new Chess(fen);
+  const sans: string[] = [];
+  for (const move of pv) {
+    try {
+      sans.push(chess.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] }).san);
+    } catch {
+      break;
+    }
+  }
+  return sans;
+}
+
+/**
+ * Numbers a line of SAN moves for display
+ * @param fen Position the line starts from
+ * @param sans The moves
+ * @returns Text such as "12. Nf3 Nc6 13. Bb5" or "12... Nc6 13. Bb5"
+ */
+export function formatLine(fen: string, sans: string[]): string {
+  const [, turn, , , , fullmove] = fen.split(' ');
+  let moveNumber = parseInt(fullmove) || 1;
+  let whiteToMove = turn !== 'b';
+
+  return sans.map((san, index) => {
+    let text = san;
+    if (whiteToMove) {
+      text = `${moveNumber}. ${san}`;
+    } else if (index === 0) {
+      text = `${moveNumber}... ${san}`;
+    }
+    if (!whiteToMove) moveNumber++;
+    whiteToMove = !whiteToMove;
+    return text;
+  }).join(' ');
+}
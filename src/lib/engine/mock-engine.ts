@@ -0,0 +1,79 @@
+import { Chess } from 'chess.js';
+import { moveToUci } from '@/lib/engine/search';
+import { UciInfo, formatInfo, parsePositionCommand } from '@/lib/engine/uci';
+import { EngineTransport } from '@/lib/engine/uci-engine';
+
+export interface MockEngineOptions {
+  // Move to play, or a function choosing one from the position; defaults to the first legal move
+  bestMove?: string | ((chess: Chess) => string | null);
+  // Info lines reported before each bestmove, as parsed info or raw engine text
+  infos?: (UciInfo | string)[];
+  // Reply the engine expects, sent along with the best move
+  ponder?: string;
+}
+
+/**
+ * An in-process stand-in for an engine worker. It answers the UCI
+ * handshake and every search immediately with a scripted move, and records
+ * the commands it received, so code driving an engine can be exercised
+ * without starting a real search.
+ */
+export class MockEngine implements EngineTransport {
+  onmessage: ((event: MessageEvent<string>) => void) | null = null;
+  readonly received: string[] = [];
+  terminated = false;
+
+  private readonly options: MockEngineOptions;
+  private chess = new Chess();
+
+  constructor(options: MockEngineOptions = {}) {
+    this.options = options;
+  }
+
+  postMessage(command: string): void {
+    this.received.push(command);
+    const [keyword] = command.trim().split(/\s+/, 1);
+
+    switch (keyword) {
+      case 'uci':
+        this.reply('id name Mock Engine', 'id author Chess Master', 'uciok');
+        break;
+      case 'isready':
+        this.reply('readyok');
+        break;
+      case 'position': {
+        const position = parsePositionCommand(command);
+        if (position) {
+          this.chess = new Chess(position.fen);
+          position.moves.forEach(move => this.chess.move({
+            from: move.slice(0, 2),
+            to: move.slice(2, 4),
+            promotion: move[4]
+          }));
+        }
+        break;
+      }
+      case 'go': {
+        const { bestMove, infos = [], ponder } = this.options;
+        const [firstMove] = this.chess.moves({ verbose: true });
+        const move = typeof bestMove === 'function'
+          ? bestMove(this.chess)
+          : bestMove ?? (firstMove ? moveToUci(firstMove) : null);
+        const lines = infos.map(info => (typeof info === 'string' ? info : formatInfo(info)));
+        this.reply(...lines, `bestmove ${move ?? '(none)'}${move && ponder ? ` ponder ${ponder}` : ''}`);
+        break;
+      }
+    }
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  // Replies arrive asynchronously, as they would from a worker
+  private reply(...lines: string[]): void {
+    setTimeout(() => {
+      lines.forEach(line => this.onmessage?.(new MessageEvent('message', { data: line })));
+    }, 0);
+  }
+}
@@ -0,0 +1,126 @@
+import { UciScore } from '@/lib/engine/uci';
+import { whiteWinningChance } from '@/lib/engine/evaluation';
+
+// Post-game review: how much each move gave away according to the engine
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export const MOVE_CLASSIFICATIONS: { value: MoveClassification; label: string }[] = [
+  { value: 'best', label: 'Best' },
+  { value: 'good', label: 'Good' },
+  { value: 'inaccuracy', label: 'Inaccuracy' },
+  { value: 'mistake', label: 'Mistake' },
+  { value: 'blunder', label: 'Blunder' }
+];
+
+// Engine verdict on a position reached in the game
+export interface PositionEvaluation {
+  // Score from White's point of view
+  score: UciScore;
+  // The engine's choice in this position, in UCI notation; null when the game is over
+  bestMove: string | null;
+}
+
+export interface ReviewedMove {
+  ply: number;
+  san: string;
+  color: 'white' | 'black';
+  classification: MoveClassification;
+  // Drop in the mover's winning chances, in percentage points
+  winChanceLoss: number;
+  // From 0 to 100
+  accuracy: number;
+  // Engine's preferred move in the position before, in UCI notation
+  bestMove: string | null;
+}
+
+export interface GameReview {
+  moves: ReviewedMove[];
+  // Average move accuracy per side, or null for a side that made no moves
+  accuracy: { white: number | null; black: number | null };
+}
+
+// Least loss of winning chances, in percentage points, for each verdict
+const INACCURACY_LOSS = 5;
+const MISTAKE_LOSS = 10;
+const BLUNDER_LOSS = 15;
+
+/**
+ * Gets a side's chances of winning from an evaluation
+ * @param score Score from White's point of view
+ * @param color The side to get the chances for
+ * @returns Winning chances from 0 to 100
+ */
+export function winPercent(score: UciScore, color: 'white' | 'black'): number {
+  const white = whiteWinningChance(score) * 100;
+  return color === 'white' ? white : 100 - white;
+}
+
+/**
+ * Rates a move by how much of the mover's winning chances it kept
+ * @param before Mover's winning chances before the move, from 0 to 100
+ * @param after Mover's winning chances after the move, from 0 to 100
+ * @returns Accuracy from 0 to 100
+ */
+export function moveAccuracy(before: number, after: number): number {
+  // Same curve as Lichess: dropping nothing scores 100 and the score falls off quickly after that
+  const accuracy = 103.1668 * Math.exp(-0.04354 * Math.max(0, before - after)) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+/**
+ * Puts a move into a category by how much it gave away
+ * @param winChanceLoss Drop in the mover's winning chances, in percentage points
+ * @param isBest Whether the move was the engine's choice
+ * @returns The category
+ */
+export function classifyMove(winChanceLoss: number, isBest: boolean): MoveClassification {
+  if (isBest) return 'best';
+  if (winChanceLoss >= BLUNDER_LOSS) return 'blunder';
+  if (winChanceLoss >= MISTAKE_LOSS) return 'mistake';
+  if (winChanceLoss >= INACCURACY_LOSS) return 'inaccuracy';
+  return 'good';
+}
+
+/**
+ * Reviews a game from the engine's verdict on each position in it
+ * @param moves The moves played, in SAN and UCI notation
+ * @param evaluations Verdicts on the start position and the position after each move
+ * @param startTurn Side to move in the start position
+ * @returns Classification and accuracy of every move that has verdicts on both sides of it
+ */
+export function reviewGame(
+  moves: { san: string; uci: string }[],
+  evaluations: PositionEvaluation[],
+  startTurn: 'white' | 'black' = 'white'
+): GameReview {
+  const reviewed: ReviewedMove[] = [];
+  const firstMover = startTurn === 'white' ? 0 : 1;
+
+  moves.forEach((move, ply) => {
+    const before = evaluations[ply];
+    const after = evaluations[ply + 1];
+    if (!before || !after) return;
+
+    const color = (ply + firstMover) % 2 === 0 ? 'white' : 'black';
+    const winBefore = winPercent(before.score, color);
+    const winAfter = winPercent(after.score, color);
+    const winChanceLoss = Math.max(0, winBefore - winAfter);
+    reviewed.push({
+      ply,
+      san: move.san,
+      color,
+      classification: classifyMove(winChanceLoss, move.uci === before.bestMove),
+      winChanceLoss,
+      accuracy: moveAccuracy(winBefore, winAfter),
+      bestMove: before.bestMove
+    });
+  });
+
+  const average = (color: 'white' | 'black') => {
+    const own = reviewed.filter(move => move.color === color);
+    if (own.length === 0) return null;
+    return own.reduce((sum, move) => sum + move.accuracy, 0) / own.length;
+  };
+
+  return { moves: reviewed, accuracy: { white: average('white'), black: average('black') } };
+}
@@ -0,0 +1,340 @@
+import { Chess, Square } from 'chess.js';
+
+// Alpha-beta search over chess.js positions, used by the built-in engine
+export interface SearchOptions {
+  // Maximum depth in plies
+  depth: number;
+  // Time budget in milliseconds; the deepest completed iteration is used
+  timeLimit: number;
+  // Moves scoring within this many centipawns of the best may be chosen at random
+  randomness?: number;
+  // Number of best lines to score exactly, for analysis
+  multiPv?: number;
+  // Root moves to consider, in UCI notation; all legal moves when unset
+  searchMoves?: string[];
+  // Called after each completed iteration
+  onIteration?: (info: SearchInfo) => void;
+}
+
+export interface SearchLine {
+  // Score in centipawns from the side to move's point of view
+  score: number;
+  // Set when the score is a forced mate, positive when the side to move mates
+  mate?: number;
+  // Principal variation as from-to-promotion strings, e.g. "e7e8q"
+  pv: string[];
+}
+
+export interface SearchInfo extends SearchLine {
+  depth: number;
+  nodes: number;
+  // The best lines, best first; as many as multiPv asks for
+  lines: SearchLine[];
+}
+
+export interface SearchResult extends SearchInfo {
+  bestMove: string | null;
+}
+
+const PIECE_VALUES: Record<string, number> = {
+  p: 100,
+  n: 320,
+  b: 330,
+  r: 500,
+  q: 900,
+  k: 0
+};
+
+// Piece-square tables from White's point of view, a8 first
+const PIECE_SQUARE_TABLES: Record<string, number[]> = {
+  p: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+    5, 5, 10, 25, 25, 10, 5, 5,
+    0, 0, 0, 20, 20, 0, 0, 0,
+    5, -5, -10, 0, 0, -10, -5, 5,
+    5, 10, 10, -20, -20, 10, 10, 5,
+    0, 0, 0, 0, 0, 0, 0, 0
+  ],
+  n: [
+    -50, -40, -30, -30, -30, -30, -40, -50,
+    -40, -20, 0, 0, 0, 0, -20, -40,
+    -30, 0, 10, 15, 15, 10, 0, -30,
+    -30, 5, 15, 20, 20, 15, 5, -30,
+    -30, 0, 15, 20, 20, 15, 0, -30,
+    -30, 5, 10, 15, 15, 10, 5, -30,
+    -40, -20, 0, 5, 5, 0, -20, -40,
+    -50, -40, -30, -30, -30, -30, -40, -50
+  ],
+  b: [
+    -20, -10, -10, -10, -10, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 10, 10, 5, 0, -10,
+    -10, 5, 5, 10, 10, 5, 5, -10,
+    -10, 0, 10, 10, 10, 10, 0, -10,
+    -10, 10, 10, 10, 10, 10, 10, -10,
+    -10, 5, 0, 0, 0, 0, 5, -10,
+    -20, -10, -10, -10, -10, -10, -10, -20
+  ],
+  r: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    5, 10, 10, 10, 10, 10, 10, 5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    0, 0, 0, 5, 5, 0, 0, 0
+  ],
+  q: [
+    -20, -10, -10, -5, -5, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 5, 5, 5, 0, -10,
+    -5, 0, 5, 5, 5, 5, 0, -5,
+    0, 0, 5, 5, 5, 5, 0, -5,
+    -10, 5, 5, 5, 5, 5, 0, -10,
+    -10, 0, 5, 0, 0, 0, 0, -10,
+    -20, -10, -10, -5, -5, -10, -10, -20
+  ],
+  k: [
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -20, -30, -30, -40, -40, -30, -30, -20,
+    -10, -20, -20, -20, -20, -20, -20, -10,
+    20, 20, 0, 0, 0, 0, 20, 20,
+    20, 30, 10, 0, 0, 10, 30, 20
+  ]
+};
+
+export const MATE_SCORE = 100000;
+const MAX_QUIESCENCE_DEPTH = 6;
+
+/**
+ * Evaluates a position statically using material and piece placement
+ * @param chess The position to evaluate
+ * @returns Score in centipawns from the side to move's point of view
+ */
+export function evaluate(chess: Chess): number {
+  let score = 0;
+  chess.board().forEach((row, rank) => row.forEach((piece, file) => {
+    if (!piece) return;
+    // Tables are written for White; mirror the rank for Black
+    const index = piece.color === 'w' ? rank * 8 + file : (7 - rank) * 8 + file;
+    const value = PIECE_VALUES[piece.type] + PIECE_SQUARE_TABLES[piece.type][index];
+    score += piece.color === 'w' ? value : -value;
+  }));
+  return chess.turn() === 'w' ? score : -score;
+}
+
+/**
+ * Formats a move in long algebraic notation as used by UCI
+ * @param move The move
+ * @returns Notation such as "e2e4" or "e7e8q"
+ */
+export function moveToUci(move: { from: string; to: string; promotion?: string }): string {
+  return `${move.from}${move.to}${move.promotion ?? ''}`;
+}
+
+// Verbose move generation builds a FEN per move, so the search works on SAN
+const SAN_PATTERN = /^([NBRQK])?[a-h]?[1-8]?(x)?([a-h][1-8])(?:=([NBRQ]))?/;
+
+// Captures of valuable pieces by cheap ones first, then promotions
+function orderMoves(chess: Chess, moves: string[], preferred?: string): string[] {
+  const scoreMove = (san: string) => {
+    if (san === preferred) return 1e6;
+    const match = san.match(SAN_PATTERN);
+    if (!match) return 0;
+    const [, piece, capture, target, promotion] = match;
+    let score = 0;
+    if (capture) {
+      // An empty target square means an en passant capture
+      const captured = chess.get(target as Square)?.type ?? 'p';
+      score += 10 * PIECE_VALUES[captured] - PIECE_VALUES[(piece ?? 'p').toLowerCase()];
+    }
+    if (promotion) score += PIECE_VALUES[promotion.toLowerCase()];
+    return score;
+  };
+  return moves
+    .map(move => ({ move, score: scoreMove(move) }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.move);
+}
+
+const isTactical = (san: string) => san.includes('x') || san.includes('=');
+
+// Converts a line of SAN moves to UCI notation without disturbing the position
+function lineToUci(chess: Chess, line: string[]): string[] {
+  const uci: string[] = [];
+  for (const san of line) {
+    uci.push(moveToUci(chess.move(san)));
+  }
+  line.forEach(() => chess.undo());
+  return uci;
+}
+
+// Moves to mate for a mate score, or undefined for an ordinary score
+function mateIn(score: number): number | undefined {
+  return Math.abs(score) > MATE_SCORE - 1000
+    ? Math.sign(score) * Math.ceil((MATE_SCORE - Math.abs(score)) / 2)
+    : undefined;
+}
+
+class SearchTimeout extends Error {}
+
+/**
+ * Searches for the best move with iterative deepening alpha-beta
+ * @param chess The position to search; it is restored before returning
+ * @param options Depth, time and randomization limits
+ * @returns The chosen move and the information from the deepest iteration
+ */
+export function search(chess: Chess, options: SearchOptions): SearchResult {
+  const deadline = performance.now() + options.timeLimit;
+  let nodes = 0;
+  // Best line from the previous iteration in SAN, searched first
+  let previousPv: string[] = [];
+
+  const checkTime = () => {
+    if ((nodes & 63) === 0 && performance.now() > deadline) {
+      throw new SearchTimeout();
+    }
+  };
+
+  const quiescence = (alpha: number, beta: number, qDepth: number): number => {
+    nodes++;
+    checkTime();
+
+    const standPat = evaluate(chess);
+    if (standPat >= beta || qDepth >= MAX_QUIESCENCE_DEPTH) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const captures = orderMoves(chess, chess.moves().filter(isTactical));
+    for (const move of captures) {
+      chess.move(move);
+      const score = -quiescence(-beta, -alpha, qDepth + 1);
+      chess.undo();
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+    return alpha;
+  };
+
+  const negamax = (depth: number, ply: number, alpha: number, beta: number, pv: string[]): number => {
+    nodes++;
+    checkTime();
+
+    if (ply > 0 && (chess.isThreefoldRepetition() || chess.isInsufficientMaterial())) {
+      return 0;
+    }
+
+    const moves = chess.moves();
+    if (moves.length === 0) {
+      // Prefer the quickest mate and the slowest defeat
+      return chess.inCheck() ? -MATE_SCORE + ply : 0;
+    }
+    if (depth === 0) {
+      return quiescence(alpha, beta, 0);
+    }
+
+    let best = -Infinity;
+    for (const move of orderMoves(chess, moves, previousPv[ply])) {
+      const childPv: string[] = [];
+      chess.move(move);
+      const score = -negamax(depth - 1, ply + 1, -beta, -alpha, childPv);
+      chess.undo();
+
+      if (score > best) {
+        best = score;
+      }
+      if (score > alpha) {
+        alpha = score;
+        pv.length = 0;
+        pv.push(move, ...childPv);
+      }
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  // Root moves in SAN, kept to the allowed ones when the caller restricts them
+  const allowedMoves = options.searchMoves
+    ? chess.moves().filter(san => options.searchMoves.includes(lineToUci(chess, [san])[0]))
+    : chess.moves();
+
+  // Scores every root move so weaker levels can pick among near-best moves
+  const searchRoot = (depth: number) => {
+    const rootMoves = orderMoves(chess, allowedMoves, previousPv[0]);
+    const scored: { move: string; score: number; pv: string[] }[] = [];
+    const window = options.randomness ?? 0;
+    const lineCount = Math.max(1, options.multiPv ?? 1);
+
+    for (const move of rootMoves) {
+      // Moves must beat the weakest of the best lines so far, less the randomness margin,
+      // for their score to be exact
+      const scores = scored.map(entry => entry.score).sort((a, b) => b - a);
+      const alpha = scores.length >= lineCount ? scores[lineCount - 1] - window : -Infinity;
+
+      const childPv: string[] = [];
+      chess.move(move);
+      const score = -negamax(depth - 1, 1, -Infinity, -alpha, childPv);
+      chess.undo();
+      scored.push({ move, score, pv: [move, ...childPv] });
+    }
+    return scored.sort((a, b) => b.score - a.score);
+  };
+
+  const startingHistoryLength = chess.history().length;
+  let result: SearchResult = { bestMove: null, depth: 0, score: evaluate(chess), nodes: 0, pv: [], lines: [] };
+  let candidates: { move: string; score: number }[] = [];
+
+  for (let depth = 1; depth <= options.depth; depth++) {
+    try {
+      const scored = searchRoot(depth);
+      if (scored.length === 0) break;
+
+      const [best] = scored;
+      previousPv = best.pv;
+      candidates = scored;
+      const lines = scored.slice(0, Math.max(1, options.multiPv ?? 1)).map(line => ({
+        score: line.score,
+        mate: mateIn(line.score),
+        pv: lineToUci(chess, line.pv)
+      }));
+      result = {
+        ...lines[0],
+        bestMove: lines[0].pv[0],
+        depth,
+        nodes,
+        lines
+      };
+      options.onIteration?.(result);
+
+      // No need to look further once a forced mate is found
+      if (result.mate !== undefined) break;
+    } catch (error) {
+      if (!(error instanceof SearchTimeout)) throw error;
+      // Unwind any moves left on the board by the interrupted iteration
+      while (chess.history().length > startingHistoryLength) {
+        chess.undo();
+      }
+      break;
+    }
+  }
+
+  // Nothing finished in time: fall back to the first legal move
+  if (!result.bestMove) {
+    const [fallback] = orderMoves(chess, allowedMoves);
+    return { ...result, bestMove: fallback ? lineToUci(chess, [fallback])[0] : null, nodes };
+  }
+
+  if (options.randomness && candidates.length > 1) {
+    const [best] = candidates;
+    const nearBest = candidates.filter(candidate => best.score - candidate.score <= options.randomness);
+    const choice = nearBest[Math.floor(Math.random() * nearBest.length)];
+    return { ...result, bestMove: lineToUci(chess, [choice.move])[0], nodes };
+  }
+
+  return { ...result, nodes };
+}
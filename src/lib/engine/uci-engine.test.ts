@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_POSITION } from 'chess.js';
+import { MockEngine } from '@/lib/engine/mock-engine';
+import { UciEngine } from '@/lib/engine/uci-engine';
+import { UciInfo, parseGoCommand } from '@/lib/engine/uci';
+
+const SICILIAN = 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq c6 0 2';
+
+describe('UciEngine driving MockEngine', () => {
+  it('completes the uci and isready handshake', async () => {
+    const mock = new MockEngine();
+    const engine = new UciEngine(mock);
+
+    await engine.init();
+
+    expect(mock.received).toEqual(['uci', 'isready']);
+    expect(engine.name).toBe('Mock Engine');
+    expect(engine.author).toBe('Chess Master');
+
+    await engine.isReady();
+    expect(mock.received).toEqual(['uci', 'isready', 'isready']);
+  });
+
+  it('sends the position as startpos or fen with its moves', async () => {
+    const mock = new MockEngine();
+    const engine = new UciEngine(mock);
+
+    engine.position(DEFAULT_POSITION);
+    engine.position(DEFAULT_POSITION, ['e2e4', 'c7c5']);
+    engine.position(SICILIAN, ['g1f3']);
+
+    expect(mock.received).toEqual([
+      'position startpos',
+      'position startpos moves e2e4 c7c5',
+      `position fen ${SICILIAN} moves g1f3`
+    ]);
+    // The mock plays the moves it was sent, so it answers with a move for Black
+    expect(await engine.go({ depth: 1 })).toEqual({ bestMove: 'b8c6', ponder: undefined });
+  });
+
+  it('sends clock times and increments with go', async () => {
+    const mock = new MockEngine();
+    const engine = new UciEngine(mock);
+
+    await engine.go({ wtime: 60000, btime: 45500.4, winc: 2000, binc: 2000 });
+
+    expect(mock.received).toEqual(['go wtime 60000 btime 45500 winc 2000 binc 2000']);
+  });
+
+  it('sends the moves a search is restricted to last, where the engine reads them back', async () => {
+    const mock = new MockEngine();
+    const engine = new UciEngine(mock);
+
+    await engine.go({ movetime: 500, searchmoves: ['g1f3', 'e7e8q'] });
+
+    expect(mock.received).toEqual(['go movetime 500 searchmoves g1f3 e7e8q']);
+    expect(parseGoCommand(`${mock.received[0]} infinite`)).toEqual({
+      movetime: 500,
+      searchmoves: ['g1f3', 'e7e8q'],
+      infinite: true
+    });
+  });
+
+  it('parses info lines into scores and principal variations', async () => {
+    const mock = new MockEngine({
+      bestMove: 'e2e4',
+      infos: [
+        'info depth 12 seldepth 18 multipv 1 score cp 34 nodes 150000 nps 750000 time 200 pv e2e4 e7e5 g1f3',
+        'info depth 12 multipv 2 score mate -3 pv d2d4 d7d5',
+        'info depth 13 multipv 1 score cp 40 lowerbound pv e2e4',
+        'info string searching'
+      ]
+    });
+    const engine = new UciEngine(mock);
+    const infos: UciInfo[] = [];
+
+    await engine.go({ depth: 13 }, info => infos.push(info));
+
+    expect(infos).toEqual([
+      {
+        depth: 12,
+        seldepth: 18,
+        multipv: 1,
+        score: { type: 'cp', value: 34 },
+        nodes: 150000,
+        nps: 750000,
+        time: 200,
+        pv: ['e2e4', 'e7e5', 'g1f3']
+      },
+      { depth: 12, multipv: 2, score: { type: 'mate', value: -3 }, pv: ['d2d4', 'd7d5'] },
+      { depth: 13, multipv: 1, score: { type: 'cp', value: 40, bound: 'lower' }, pv: ['e2e4'] },
+      { string: 'searching' }
+    ]);
+  });
+
+  it('reads the best move with and without a ponder move', async () => {
+    const pondering = new UciEngine(new MockEngine({ bestMove: 'e2e4', ponder: 'e7e5' }));
+    expect(await pondering.go({ depth: 1 })).toEqual({ bestMove: 'e2e4', ponder: 'e7e5' });
+
+    const plain = new UciEngine(new MockEngine({ bestMove: 'd2d4' }));
+    expect(await plain.go({ depth: 1 })).toEqual({ bestMove: 'd2d4', ponder: undefined });
+
+    // A position without legal moves answers with (none)
+    const mated = new UciEngine(new MockEngine({ bestMove: () => null }));
+    expect(await mated.go({ depth: 1 })).toEqual({ bestMove: null, ponder: undefined });
+  });
+
+  it('sends stop only while a search is running, and the search still resolves', async () => {
+    const mock = new MockEngine({ bestMove: 'g1f3' });
+    const engine = new UciEngine(mock);
+
+    engine.stop();
+    expect(mock.received).toEqual([]);
+
+    const search = engine.go({ infinite: true });
+    engine.stop();
+    expect(mock.received).toEqual(['go infinite', 'stop']);
+    expect(await search).toEqual({ bestMove: 'g1f3', ponder: undefined });
+
+    engine.stop();
+    expect(mock.received).toEqual(['go infinite', 'stop']);
+  });
+
+  it('resolves pending searches without a move when quitting', async () => {
+    const mock = new MockEngine();
+    const engine = new UciEngine(mock);
+
+    const search = engine.go({ infinite: true });
+    engine.quit();
+
+    expect(await search).toEqual({ bestMove: null });
+    expect(mock.received).toEqual(['go infinite', 'quit']);
+    expect(mock.terminated).toBe(true);
+  });
+});
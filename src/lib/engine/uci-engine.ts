@@ -0,0 +1,167 @@
+import {
+  UciBestMove,
+  UciGoParams,
+  UciInfo,
+  UciOption,
+  goCommand,
+  parseBestMove,
+  parseInfo,
+  parseOption,
+  positionCommand
+} from '@/lib/engine/uci';
+
+// Anything that exchanges UCI text lines like a Web Worker does
+export interface EngineTransport {
+  postMessage(command: string): void;
+  onmessage: ((event: MessageEvent<string>) => void) | null;
+  terminate(): void;
+}
+
+interface PendingSearch {
+  onInfo?: (info: UciInfo) => void;
+  resolve: (result: UciBestMove) => void;
+}
+
+/**
+ * Drives a chess engine over UCI. Commands are sent in order and the
+ * engine answers each go with exactly one bestmove, so replies are matched
+ * to searches by their order.
+ */
+export class UciEngine {
+  name?: string;
+  author?: string;
+  readonly options: Record<string, UciOption> = {};
+
+  private readonly transport: EngineTransport;
+  private readonly readyWaiters: (() => void)[] = [];
+  private readonly searches: PendingSearch[] = [];
+  private uciOk: (() => void) | null = null;
+
+  constructor(transport: EngineTransport) {
+    this.transport = transport;
+    transport.onmessage = (event) => {
+      String(event.data).split('\n').forEach(line => this.handleLine(line.trim()));
+    };
+  }
+
+  /**
+   * Performs the UCI handshake and waits until the engine is ready
+   * @returns Resolves once the engine has identified itself
+   */
+  async init(): Promise<void> {
+    await new Promise<void>(resolve => {
+      this.uciOk = resolve;
+      this.send('uci');
+    });
+    await this.isReady();
+  }
+
+  /**
+   * Waits for the engine to finish processing earlier commands
+   * @returns Resolves on readyok
+   */
+  isReady(): Promise<void> {
+    return new Promise(resolve => {
+      this.readyWaiters.push(resolve);
+      this.send('isready');
+    });
+  }
+
+  /**
+   * Sets an engine option
+   * @param name Option name as advertised by the engine
+   * @param value Option value; omitted for buttons
+   */
+  setOption(name: string, value?: string | number | boolean): void {
+    this.send(value === undefined ? `setoption name ${name}` : `setoption name ${name} value ${value}`);
+  }
+
+  /**
+   * Tells the engine the next search belongs to a different game
+   * @returns Resolves once the engine is ready again
+   */
+  newGame(): Promise<void> {
+    this.send('ucinewgame');
+    return this.isReady();
+  }
+
+  /**
+   * Sets the position to search
+   * @param fen Starting position
+   * @param moves Moves played from it in UCI notation
+   */
+  position(fen: string, moves: string[] = []): void {
+    this.send(positionCommand(fen, moves));
+  }
+
+  /**
+   * Starts a search
+   * @param params Search limits
+   * @param onInfo Called with each info line the search produces
+   * @returns The engine's best move once the search ends
+   */
+  go(params: UciGoParams, onInfo?: (info: UciInfo) => void): Promise<UciBestMove> {
+    return new Promise(resolve => {
+      this.searches.push({ onInfo, resolve });
+      this.send(goCommand(params));
+    });
+  }
+
+  /**
+   * Asks the engine to end the current search; its go still resolves
+   */
+  stop(): void {
+    if (this.searches.length > 0) {
+      this.send('stop');
+    }
+  }
+
+  /**
+   * Shuts the engine down
+   */
+  quit(): void {
+    this.send('quit');
+    this.transport.onmessage = null;
+    this.transport.terminate();
+    // Searches that can no longer finish resolve without a move
+    this.searches.splice(0).forEach(search => search.resolve({ bestMove: null }));
+  }
+
+  private send(command: string): void {
+    this.transport.postMessage(command);
+  }
+
+  private handleLine(line: string): void {
+    const [keyword] = line.split(/\s+/, 1);
+
+    switch (keyword) {
+      case 'id': {
+        const match = line.match(/^id\s+(name|author)\s+(.*)$/);
+        if (match) {
+          this[match[1] as 'name' | 'author'] = match[2];
+        }
+        break;
+      }
+      case 'option': {
+        const option = parseOption(line);
+        if (option) {
+          this.options[option.name] = option;
+        }
+        break;
+      }
+      case 'uciok':
+        this.uciOk?.();
+        this.uciOk = null;
+        break;
+      case 'readyok':
+        this.readyWaiters.shift()?.();
+        break;
+      case 'info':
+        this.searches[0]?.onInfo?.(parseInfo(line));
+        break;
+      case 'bestmove':
+        this.searches.shift()?.resolve(parseBestMove(line));
+        break;
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { DEFAULT_POSITION } from 'chess.js';
+
+// Text commands and replies of the Universal Chess Interface
+export interface UciScore {
+  // Centipawns, or moves to mate (negative when being mated), from the side to move's point of view
+  type: 'cp' | 'mate';
+  value: number;
+  // Set when the engine only reports a bound rather than an exact score
+  bound?: 'lower' | 'upper';
+}
+
+export interface UciInfo {
+  depth?: number;
+  seldepth?: number;
+  // Index of the line when the engine reports several, starting at 1
+  multipv?: number;
+  score?: UciScore;
+  nodes?: number;
+  nps?: number;
+  // Search time so far, in milliseconds
+  time?: number;
+  pv?: string[];
+  string?: string;
+}
+
+export interface UciBestMove {
+  // Null when the position has no legal moves
+  bestMove: string | null;
+  ponder?: string;
+}
+
+export interface UciOption {
+  name: string;
+  type: 'check' | 'spin' | 'combo' | 'button' | 'string';
+  default?: string;
+  min?: number;
+  max?: number;
+  vars?: string[];
+}
+
+export interface UciGoParams {
+  // Clock times and increments in milliseconds
+  wtime?: number;
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  movestogo?: number;
+  depth?: number;
+  nodes?: number;
+  movetime?: number;
+  infinite?: boolean;
+  // Root moves the search is restricted to, in UCI notation
+  searchmoves?: string[];
+}
+
+// Mate scores map beyond any material score, nearer mates scoring higher
+const MATE_CENTIPAWNS = 100000;
+
+const UCI_MOVE_PATTERN = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+const INFO_NUMBER_FIELDS = ['depth', 'seldepth', 'multipv', 'nodes', 'nps', 'time'] as const;
+
+/**
+ * Builds a position command
+ * @param fen Starting position; the standard position is sent as "startpos"
+ * @param moves Moves played from the starting position in UCI notation
+ * @returns The command text
+ */
+export function positionCommand(fen: string, moves: string[] = []): string {
+  const position = fen === DEFAULT_POSITION ? 'startpos' : `fen ${fen}`;
+  return moves.length > 0 ? `position ${position} moves ${moves.join(' ')}` : `position ${position}`;
+}
+
+/**
+ * Builds a go command
+ * @param params Search limits
+ * @returns The command text
+ */
+export function goCommand(params: UciGoParams): string {
+  const parts = ['go'];
+  for (const key of ['wtime', 'btime', 'winc', 'binc', 'movestogo', 'depth', 'nodes', 'movetime'] as const) {
+    if (params[key] !== undefined) {
+      parts.push(key, String(Math.max(0, Math.round(params[key]))));
+    }
+  }
+  if (params.infinite) {
+    parts.push('infinite');
+  }
+  // Everything after searchmoves is read as moves, so it comes last
+  if (params.searchmoves && params.searchmoves.length > 0) {
+    parts.push('searchmoves', ...params.searchmoves);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Reads the limits from a go command
+ * @param command The command text
+ * @returns The search limits
+ */
+export function parseGoCommand(command: string): UciGoParams {
+  const tokens = command.trim().split(/\s+/).slice(1);
+  const params: UciGoParams = {};
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === 'infinite') {
+      params.infinite = true;
+    } else if (token === 'searchmoves') {
+      params.searchmoves = [];
+      while (i + 1 < tokens.length && UCI_MOVE_PATTERN.test(tokens[i + 1])) {
+        params.searchmoves.push(tokens[++i]);
+      }
+    } else if (['wtime', 'btime', 'winc', 'binc', 'movestogo', 'depth', 'nodes', 'movetime'].includes(token)) {
+      params[token as Exclude<keyof UciGoParams, 'infinite' | 'searchmoves'>] = parseInt(tokens[++i]);
+    }
+  }
+  return params;
+}
+
+/**
+ * Reads the position from a position command
+ * @param command The command text
+ * @returns The starting FEN and the moves played from it, or null if malformed
+ */
+export function parsePositionCommand(command: string): { fen: string; moves: string[] } | null {
+  const match = command.trim().match(/^position\s+(startpos|fen\s+(.+?))(?:\s+moves\s+(.*))?$/);
+  if (!match) {
+    return null;
+  }
+  const [, , fen, moves] = match;
+  return {
+    fen: fen ?? DEFAULT_POSITION,
+    moves: moves ? moves.trim().split(/\s+/) : []
+  };
+}
+
+/**
+ * Parses an info line
+ * @param line Engine output starting with "info"
+ * @returns The fields that were present
+ */
+export function parseInfo(line: string): UciInfo {
+  const tokens = line.trim().split(/\s+/).slice(1);
+  const info: UciInfo = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if ((INFO_NUMBER_FIELDS as readonly string[]).includes(token)) {
+      info[token as typeof INFO_NUMBER_FIELDS[number]] = parseInt(tokens[++i]);
+    } else if (token === 'score') {
+      const type = tokens[++i] as UciScore['type'];
+      info.score = { type, value: parseInt(tokens[++i]) };
+      if (tokens[i + 1] === 'lowerbound' || tokens[i + 1] === 'upperbound') {
+        info.score.bound = tokens[++i] === 'lowerbound' ? 'lower' : 'upper';
+      }
+    } else if (token === 'pv') {
+      // The principal variation runs to the end of the line
+      info.pv = tokens.slice(i + 1);
+      break;
+    } else if (token === 'string') {
+      info.string = tokens.slice(i + 1).join(' ');
+      break;
+    }
+  }
+  return info;
+}
+
+/**
+ * Parses a bestmove line
+ * @param line Engine output starting with "bestmove"
+ * @returns The move and the optional move to ponder on
+ */
+export function parseBestMove(line: string): UciBestMove {
+  const [, move, ponderKeyword, ponder] = line.trim().split(/\s+/);
+  return {
+    bestMove: !move || move === '(none)' || move === '0000' ? null : move,
+    ponder: ponderKeyword === 'ponder' ? ponder : undefined
+  };
+}
+
+/**
+ * Parses an option line sent in reply to "uci"
+ * @param line Engine output starting with "option"
+ * @returns The option, or null if malformed
+ */
+export function parseOption(line: string): UciOption | null {
+  const match = line.trim().match(/^option\s+name\s+(.+?)\s+type\s+(\w+)(.*)$/);
+  if (!match) {
+    return null;
+  }
+  const [, name, type, rest] = match;
+  const option: UciOption = { name, type: type as UciOption['type'] };
+
+  // Values may contain spaces, so split on the keywords instead
+  const fields = rest.split(/\s+(?=(?:default|min|max|var)\s)/).map(field => field.trim()).filter(Boolean);
+  for (const field of fields) {
+    const [keyword, ...valueParts] = field.split(/\s+/);
+    const value = valueParts.join(' ');
+    if (keyword === 'default') {
+      option.default = value;
+    } else if (keyword === 'min') {
+      option.min = parseInt(value);
+    } else if (keyword === 'max') {
+      option.max = parseInt(value);
+    } else if (keyword === 'var') {
+      option.vars = [...(option.vars ?? []), value];
+    }
+  }
+  return option;
+}
+
+/**
+ * Formats an info line
+ * @param info The fields to report
+ * @returns The line text
+ */
+export function formatInfo(info: UciInfo): string {
+  const parts = ['info'];
+  for (const key of INFO_NUMBER_FIELDS) {
+    if (info[key] !== undefined) {
+      parts.push(key, String(info[key]));
+    }
+  }
+  if (info.score) {
+    parts.push('score', info.score.type, String(info.score.value));
+    if (info.score.bound) {
+      parts.push(info.score.bound === 'lower' ? 'lowerbound' : 'upperbound');
+    }
+  }
+  if (info.pv && info.pv.length > 0) {
+    parts.push('pv', ...info.pv);
+  } else if (info.string) {
+    parts.push('string', info.string);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Converts a score to a single centipawn scale so scores can be compared
+ * @param score The engine score
+ * @returns Centipawns, with mates mapped to very large values
+ */
+export function scoreToCentipawns(score: UciScore): number {
+  if (score.type === 'cp') {
+    return score.value;
+  }
+  return Math.sign(score.value || -1) * (MATE_CENTIPAWNS - Math.abs(score.value));
+}
@@ -0,0 +1,171 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { GameState, playersByColor } from '@/lib/game-state';
+import { PgnResult } from '@/lib/pgn';
+import { formatOpening, identifyOpening } from '@/lib/openings';
+
+// Games kept in IndexedDB so they outlive the tab they were played in
+export interface ArchivedGame {
+  id: string;
+  white: string;
+  black: string;
+  // '*' while the game is still in progress
+  result: PgnResult;
+  opening?: string;
+  startedAt: number;
+  // When the game was last saved, in milliseconds since the epoch
+  updatedAt: number;
+  state: GameState;
+}
+
+export type ResultFilter = 'all' | 'white' | 'black' | 'draw' | 'unfinished';
+
+export interface ArchiveFilter {
+  // Matches either player's name, ignoring case
+  player?: string;
+  // Day the game started, as YYYY-MM-DD
+  date?: string;
+  result?: ResultFilter;
+  // Matches the opening name or ECO code, ignoring case
+  opening?: string;
+}
+
+const DATABASE_NAME = 'chessArchive';
+const DATABASE_VERSION = 1;
+const GAMES_STORE = 'games';
+
+let database: Promise<IDBDatabase> | null = null;
+
+// Opens the database once, creating the store on first use
+function openArchive(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again after a failure
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+// Runs one request against the games store and resolves with its result
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openArchive();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(GAMES_STORE, mode);
+    const request = run(transaction.objectStore(GAMES_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Archive transaction aborted'));
+  });
+}
+
+/**
+ * Builds the archive entry for a game
+ * @param state The game state
+ * @returns The entry, with the details the history page searches on
+ */
+export function toArchivedGame(state: GameState): ArchivedGame {
+  const { white, black } = playersByColor(state);
+  // Opening names only describe games from the standard start position
+  const fromStandardStart = !state.startFen || state.startFen === DEFAULT_POSITION;
+  const opening = fromStandardStart ? identifyOpening(state.moves.map(move => move.san)) : null;
+  return {
+    id: state.id,
+    white: white.name,
+    black: black.name,
+    result: state.result?.result ?? '*',
+    opening: opening ? formatOpening(opening) : undefined,
+    startedAt: state.startedAt,
+    updatedAt: Date.now(),
+    state
+  };
+}
+
+/**
+ * Saves a game, replacing any earlier save of it
+ * @param state The game state
+ */
+export async function archiveGame(state: GameState): Promise<void> {
+  await withStore('readwrite', store => store.put(toArchivedGame(state)));
+}
+
+/**
+ * Lists every archived game
+ * @returns The games, most recently started first
+ */
+export async function listArchivedGames(): Promise<ArchivedGame[]> {
+  const games = await withStore<ArchivedGame[]>('readonly', store => store.index('startedAt').getAll());
+  return games.reverse();
+}
+
+/**
+ * Loads one archived game
+ * @param id The game's identifier
+ * @returns The game, or null if it is not in the archive
+ */
+export async function getArchivedGame(id: string): Promise<ArchivedGame | null> {
+  const game = await withStore<ArchivedGame | undefined>('readonly', store => store.get(id));
+  return game ?? null;
+}
+
+/**
+ * Removes a game from the archive
+ * @param id The game's identifier
+ */
+export async function deleteArchivedGame(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+// Local calendar day of a timestamp, as YYYY-MM-DD
+function dayOf(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+const RESULT_FILTERS: Record<Exclude<ResultFilter, 'all'>, PgnResult> = {
+  white: '1-0',
+  black: '0-1',
+  draw: '1/2-1/2',
+  unfinished: '*'
+};
+
+/**
+ * Picks the archived games that match a search
+ * @param games The games to search
+ * @param filter The search; empty fields match everything
+ * @returns The matching games, in their original order
+ */
+export function filterArchivedGames(games: ArchivedGame[], filter: ArchiveFilter): ArchivedGame[] {
+  const player = filter.player?.trim().toLowerCase();
+  const opening = filter.opening?.trim().toLowerCase();
+
+  return games.filter(game => {
+    if (player && !game.white.toLowerCase().includes(player) && !game.black.toLowerCase().includes(player)) {
+      return false;
+    }
+    if (filter.date && dayOf(game.startedAt) !== filter.date) {
+      return false;
+    }
+    if (filter.result && filter.result !== 'all' && game.result !== RESULT_FILTERS[filter.result]) {
+      return false;
+    }
+    if (opening && !game.opening?.toLowerCase().includes(opening)) {
+      return false;
+    }
+    return true;
+  });
+}
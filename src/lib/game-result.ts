@@ -0,0 +1,152 @@
+import { DRAW_REASON_MESSAGES, DrawReason } from '@/lib/draw-rules';
+import { PgnResult } from '@/lib/pgn';
+
+// How a game came to an end
+export type Termination =
+  | 'checkmate'
+  | 'resignation'
+  | 'timeout'
+  | 'agreement'
+  | 'stalemate'
+  | 'repetition'
+  | 'insufficient-material'
+  | 'fifty-move'
+  | 'abandonment'
+  | 'aborted'
+  // Variant goals reached instead of checkmate
+  | 'king-of-the-hill'
+  | 'three-check'
+  | 'racing-kings';
+
+export interface GameResult {
+  result: PgnResult;
+  termination: Termination;
+  winner?: 'white' | 'black';
+  // The precise rule behind a draw, e.g. fivefold rather than threefold repetition
+  drawReason?: DrawReason;
+  message: string;
+}
+
+const DRAW_TERMINATIONS: Record<DrawReason, Termination> = {
+  'stalemate': 'stalemate',
+  'agreement': 'agreement',
+  'insufficient-material': 'insufficient-material',
+  'threefold-repetition': 'repetition',
+  'fivefold-repetition': 'repetition',
+  'fifty-move': 'fifty-move',
+  'seventy-five-move': 'fifty-move'
+};
+
+const TERMINATION_TITLES: Record<Termination, string> = {
+  'checkmate': 'Checkmate!',
+  'resignation': 'Resignation',
+  'timeout': 'Time Out',
+  'agreement': 'Draw!',
+  'stalemate': 'Stalemate',
+  'repetition': 'Draw!',
+  'insufficient-material': 'Draw!',
+  'fifty-move': 'Draw!',
+  'abandonment': 'Game Abandoned',
+  'aborted': 'Game Aborted',
+  'king-of-the-hill': 'King of the Hill!',
+  'three-check': 'Third Check!',
+  'racing-kings': 'Race Finished!'
+};
+
+/**
+ * Builds the result of a decisive game
+ * @param winner The colour that won
+ * @param termination How the game was won
+ * @param message Description shown to the players
+ * @returns The game result
+ */
+export function winResult(
+  winner: 'white' | 'black',
+  termination: Termination,
+  message: string
+): GameResult {
+  return {
+    result: winner === 'white' ? '1-0' : '0-1',
+    termination,
+    winner,
+    message
+  };
+}
+
+/**
+ * Builds the result of a drawn game
+ * @param reason The rule under which the game was drawn
+ * @param message Description shown to the players; defaults to the rule
+ * @returns The game result
+ */
+export function drawResult(reason: DrawReason, message = DRAW_REASON_MESSAGES[reason]): GameResult {
+  return {
+    result: '1/2-1/2',
+    termination: DRAW_TERMINATIONS[reason],
+    drawReason: reason,
+    message
+  };
+}
+
+/**
+ * Builds the result when a flag falls but the opponent has no way to mate,
+ * which FIDE rules score as a draw
+ * @param message Description shown to the players
+ * @returns The game result
+ */
+export function timeoutDrawResult(message: string): GameResult {
+  return {
+    result: '1/2-1/2',
+    termination: 'timeout',
+    drawReason: 'insufficient-material',
+    message
+  };
+}
+
+/**
+ * Builds the result of a game called off before it properly began
+ * @returns The game result, which leaves the score unset
+ */
+export function abortedResult(): GameResult {
+  return {
+    result: '*',
+    termination: 'aborted',
+    message: 'The game was aborted'
+  };
+}
+
+/**
+ * Whether the game may still be aborted rather than resigned
+ * @param movesPlayed Number of half-moves played so far
+ * @returns True while fewer than two moves have been made
+ */
+export function canAbort(movesPlayed: number): boolean {
+  return movesPlayed < 2;
+}
+
+/**
+ * Gets the heading for the game-over screen
+ * @param result The game result
+ * @returns A short title such as "Checkmate!" or "Draw!"
+ */
+export function resultTitle(result: GameResult): string {
+  return TERMINATION_TITLES[result.termination];
+}
+
+/**
+ * Maps a termination to the value of the PGN Termination tag
+ * @param termination How the game ended
+ * @returns "Normal", "Time forfeit", "Abandoned" or "Unterminated"
+ */
+export function pgnTermination(termination: Termination): string {
+  switch (termination) {
+    case 'timeout':
+      return 'Time forfeit';
+    case 'abandonment':
+      return 'Abandoned';
+    case 'aborted':
+      return 'Unterminated';
+    default:
+      return 'Normal';
+  }
+}
@@ -0,0 +1,239 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { TimeControl, toPgnTimeControl } from '@/lib/time-control';
+import { formatPgnDate, writePgn } from '@/lib/pgn';
+import { GameResult, pgnTermination } from '@/lib/game-result';
+import { ReloadClockPolicy } from '@/lib/settings';
+import { GameVariant, createPosition, pgnVariantName } from '@/lib/variants';
+
+// Types for the live game shared between the setup screen and the game page
+export interface Player {
+  name: string;
+  color: 'white' | 'black';
+  // Remaining time in milliseconds at the start of the player's turn
+  timeLeft: number;
+  movesMade: number;
+}
+
+export interface MoveRecord {
+  san: string;
+  from: string;
+  to: string;
+  promotion?: string;
+  // Position after the move
+  fen: string;
+  // Mover's remaining time after the move, in milliseconds
+  clock: number;
+  // When the move was made, in milliseconds since the epoch
+  at: number;
+}
+
+export interface Takeback {
+  // Index of the move that was taken back
+  ply: number;
+  san: string;
+  // When the take-back happened, in milliseconds since the epoch
+  at: number;
+}
+
+export interface ComputerOpponent {
+  // Side the computer plays
+  color: 'white' | 'black';
+  // Difficulty level, see ENGINE_LEVELS
+  level: number;
+}
+
+export interface GameState {
+  // Identifies the game in the archive
+  id: string;
+  playerA: Player;
+  playerB: Player;
+  currentTurn: 'white' | 'black';
+  timeControl: TimeControl;
+  moves: MoveRecord[];
+  takebacks: Takeback[];
+  // When the game began, in milliseconds since the epoch
+  startedAt: number;
+  // Set when one side is played by the built-in engine
+  computer?: ComputerOpponent;
+  // Rule set, standard chess when unset
+  variant?: GameVariant;
+  // Position the game began from, when not the standard one
+  startFen?: string;
+  // Set once the game has ended
+  result?: GameResult;
+}
+
+// A move written down in secret when a game is adjourned, played when it resumes
+export interface SealedMove {
+  from: string;
+  to: string;
+  promotion?: string;
+}
+
+// A live game saved on every change so it survives a reload or crash
+export interface GameCheckpoint {
+  state: GameState;
+  // Time already spent on the current turn when saved, in milliseconds
+  turnElapsed: number;
+  // When the checkpoint was written, in milliseconds since the epoch
+  savedAt: number;
+  takebackRequested: boolean;
+  drawOffered: boolean;
+  // Set while both clocks are stopped
+  paused?: boolean;
+  // Set when the game resumes from an adjournment with a sealed move
+  sealedMove?: SealedMove;
+}
+
+export const GAME_STATE_KEY = 'chessGameState';
+
+/**
+ * Creates an identifier for a new game
+ * @returns An identifier unique to this browser
+ */
+export function createGameId(): string {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Saves the live game for the game page to pick up, even after the browser was closed
+ * @param checkpoint The game and its unsaved turn details
+ */
+export function saveCheckpoint(checkpoint: Omit<GameCheckpoint, 'savedAt'>): void {
+  localStorage.setItem(GAME_STATE_KEY, JSON.stringify({ ...checkpoint, savedAt: Date.now() }));
+}
+
+/**
+ * Loads the saved live game
+ * @returns The checkpoint, or null if there is no game to resume
+ */
+export function loadCheckpoint(): GameCheckpoint | null {
+  try {
+    const stored = localStorage.getItem(GAME_STATE_KEY);
+    if (!stored) {
+      return null;
+    }
+    const parsed = JSON.parse(stored);
+    // Anything else is not a game this version can resume
+    if (!parsed || typeof parsed !== 'object' || !('state' in parsed)) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forgets the saved live game
+ */
+export function clearCheckpoint(): void {
+  localStorage.removeItem(GAME_STATE_KEY);
+}
+
+/**
+ * Works out how much of the current turn has gone when a saved game resumes
+ * @param checkpoint The saved game
+ * @param policy Whether the clock kept running while the page was closed
+ * @param at Current time in milliseconds since the epoch
+ * @returns Time spent on the turn so far, in milliseconds
+ */
+export function resumedTurnElapsed(checkpoint: GameCheckpoint, policy: ReloadClockPolicy, at: number = Date.now()): number {
+  if (checkpoint.state.result || checkpoint.paused || policy === 'pause') {
+    return checkpoint.turnElapsed;
+  }
+  return checkpoint.turnElapsed + Math.max(0, at - checkpoint.savedAt);
+}
+
+/**
+ * Rebuilds the game from its moves, keeping the history repetition checks need
+ * @param state The game state
+ * @param moves The moves played, if not the game's own
+ * @returns The game at its current position
+ */
+export function replayMoves(state: GameState, moves: MoveRecord[] = state.moves): Chess {
+  const chess = createPosition(state.variant, state.startFen);
+  moves.forEach(move => chess.move({ from: move.from, to: move.to, promotion: move.promotion }));
+  return chess;
+}
+
+/**
+ * Gets the players by the colour they play
+ * @param state The game state
+ * @returns The white and black players
+ */
+export function playersByColor(state: GameState): { white: Player; black: Player } {
+  return state.playerA.color === 'white'
+    ? { white: state.playerA, black: state.playerB }
+    : { white: state.playerB, black: state.playerA };
+}
+
+/**
+ * Lists every position reached in the game, for repetition checks
+ * @param state The game state
+ * @returns FENs from the starting position to the current one
+ */
+export function positionHistory(state: GameState): string[] {
+  return [state.startFen ?? DEFAULT_POSITION, ...state.moves.map(move => move.fen)];
+}
+
+/**
+ * Exports a game as PGN, finished or still in progress
+ * @param state The game state
+ * @returns PGN text
+ */
+export function gameStateToPgn(state: GameState): string {
+  const { white, black } = playersByColor(state);
+  const { result } = state;
+
+  const headers: Record<string, string> = {
+    Event: 'Casual game',
+    Site: 'Chess Master',
+    Date: formatPgnDate(new Date(state.startedAt)),
+    Round: '-',
+    White: white.name,
+    Black: black.name,
+    TimeControl: toPgnTimeControl(state.timeControl),
+    Termination: result ? pgnTermination(result.termination) : 'Unterminated'
+  };
+  const variant = pgnVariantName(state.variant ?? 'standard');
+  if (variant) {
+    headers.Variant = variant;
+  }
+
+  // Take-backs are noted after the move that preceded them
+  const takebackNotes = (ply: number) => state.takebacks
+    .filter(takeback => takeback.ply === ply + 1)
+    .map(takeback => `${takeback.san} was taken back.`);
+
+  const moves = state.moves.map((move, index) => ({
+    san: move.san,
+    clock: move.clock,
+    comment: [
+      ...takebackNotes(index),
+      // The closing message annotates the final move
+      index === state.moves.length - 1 ? result?.message : undefined
+    ].filter(Boolean).join(' ') || undefined
+  }));
+
+  return writePgn({
+    headers,
+    moves,
+    result: result?.result ?? '*',
+    startFen: state.startFen,
+    comment: takebackNotes(-1).join(' ') || undefined
+  });
+}
+
+/**
+ * Builds a file name for a game export
+ * @param state The game state
+ * @returns File name such as "alice-vs-bob-2024.05.28.pgn"
+ */
+export function pgnFileName(state: GameState): string {
+  const { white, black } = playersByColor(state);
+  const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'player';
+  return `${slug(white.name)}-vs-${slug(black.name)}-${formatPgnDate(new Date(state.startedAt))}.pgn`;
+}
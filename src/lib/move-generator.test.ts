@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { boardFromFen } from '@/lib/move-generator';
+import { STANDARD_FEN, writeFen } from '@/lib/chess-validator';
+
+// The standard perft positions with their known node counts, depth 1 first
+// (https://www.chessprogramming.org/Perft_Results)
+const PERFT_POSITIONS: { name: string; fen: string; nodes: number[] }[] = [
+  {
+    name: 'start position',
+    fen: STANDARD_FEN,
+    nodes: [20, 400, 8902, 197281]
+  },
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    nodes: [48, 2039, 97862]
+  },
+  {
+    name: 'position 3',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    nodes: [14, 191, 2812, 43238, 674624]
+  },
+  {
+    name: 'position 4',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    nodes: [6, 264, 9467, 422333]
+  },
+  {
+    name: 'position 5',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    nodes: [44, 1486, 62379]
+  },
+  {
+    name: 'position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    nodes: [46, 2079, 89890]
+  }
+];
+
+describe('perft', () => {
+  for (const { name, fen, nodes } of PERFT_POSITIONS) {
+    it(`matches the known node counts for ${name}`, () => {
+      const board = boardFromFen(fen);
+      expect(nodes.map((_, index) => board.perft(index + 1))).toEqual(nodes);
+      // Every move made during the count was taken back
+      expect(writeFen(board.position())).toBe(fen);
+    });
+  }
+});
+
+describe('Board', () => {
+  it('hashes a position the same however it was reached', () => {
+    const board = boardFromFen(STANDARD_FEN);
+    const start = board.hash;
+    board.makeMove({ from: { x: 6, y: 0 }, to: { x: 5, y: 2 } });
+    board.makeMove({ from: { x: 6, y: 7 }, to: { x: 5, y: 5 } });
+    const moved = board.hash;
+    expect(moved).toBe(boardFromFen(writeFen(board.position())).hash);
+
+    board.makeMove({ from: { x: 5, y: 2 }, to: { x: 6, y: 0 } });
+    board.makeMove({ from: { x: 5, y: 5 }, to: { x: 6, y: 7 } });
+    expect(board.hash).toBe(start);
+
+    board.unmakeMove();
+    board.unmakeMove();
+    expect(board.hash).toBe(moved);
+  });
+
+  it('rejects illegal moves', () => {
+    const board = boardFromFen(STANDARD_FEN);
+    expect(() => board.makeMove({ from: { x: 4, y: 0 }, to: { x: 4, y: 2 } })).toThrow('Illegal move e1e3');
+    expect(() => board.unmakeMove()).toThrow();
+  });
+});
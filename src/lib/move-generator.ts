@@ -0,0 +1,595 @@
+import {
+  CastlingRights,
+  ChessPosition,
+  PieceColor,
+  PieceType,
+  PlacedPiece,
+  Position,
+  parseFen,
+  positionToAlgebraic
+} from '@/lib/chess-validator';
+
+// A legal move generator of our own, independent of chess.js, for engine
+// work and variants. The board is a 0x88 array: square = rank * 16 + file,
+// so any square with a bit of 0x88 set is off the board. The app still plays
+// through chess.js; this stands alone for now and is checked against the
+// standard perft counts in move-generator.test.ts.
+
+export interface GeneratedMove {
+  from: ChessPosition;
+  to: ChessPosition;
+  piece: PieceType;
+  captured?: PieceType;
+  promotion?: PieceType;
+  castling?: 'kingside' | 'queenside';
+  enPassant?: boolean;
+}
+
+// The squares and promotion piece that pick out one move, as makeMove takes them
+export type MoveRequest = Pick<GeneratedMove, 'from' | 'to' | 'promotion'>;
+
+// Pieces are a type from 1 to 6, plus 8 for black ones; 0 is an empty square
+const PAWN = 1;
+const KNIGHT = 2;
+const BISHOP = 3;
+const ROOK = 4;
+const QUEEN = 5;
+const KING = 6;
+const BLACK = 8;
+
+const WHITE_SIDE = 0;
+const BLACK_SIDE = 1;
+
+const PIECE_TYPES: PieceType[] = ['p', 'p', 'n', 'b', 'r', 'q', 'k'];
+const TYPE_CODES: Record<PieceType, number> = { p: PAWN, n: KNIGHT, b: BISHOP, r: ROOK, q: QUEEN, k: KING };
+const PROMOTIONS = [QUEEN, ROOK, BISHOP, KNIGHT];
+
+const KNIGHT_OFFSETS = [33, 31, 18, 14, -14, -18, -31, -33];
+const KING_OFFSETS = [17, 16, 15, 1, -1, -15, -16, -17];
+const ROOK_OFFSETS = [16, 1, -1, -16];
+const BISHOP_OFFSETS = [17, 15, -15, -17];
+const QUEEN_OFFSETS = [...ROOK_OFFSETS, ...BISHOP_OFFSETS];
+
+// Move flags
+const CAPTURE = 1;
+const DOUBLE_PUSH = 2;
+const EN_PASSANT = 4;
+const KINGSIDE = 8;
+const QUEENSIDE = 16;
+
+// Castling rights as bits
+const WHITE_KINGSIDE = 1;
+const WHITE_QUEENSIDE = 2;
+const BLACK_KINGSIDE = 4;
+const BLACK_QUEENSIDE = 8;
+
+const A1 = 0;
+const E1 = 4;
+const H1 = 7;
+const A8 = 112;
+const E8 = 116;
+const H8 = 119;
+
+// Rights kept when a piece moves from or to each square: moving the king or a
+// rook, or capturing a rook at home, gives up the matching rights
+const CASTLING_MASKS = new Array<number>(128).fill(15);
+CASTLING_MASKS[A1] = 15 & ~WHITE_QUEENSIDE;
+CASTLING_MASKS[E1] = 15 & ~(WHITE_KINGSIDE | WHITE_QUEENSIDE);
+CASTLING_MASKS[H1] = 15 & ~WHITE_KINGSIDE;
+CASTLING_MASKS[A8] = 15 & ~BLACK_QUEENSIDE;
+CASTLING_MASKS[E8] = 15 & ~(BLACK_KINGSIDE | BLACK_QUEENSIDE);
+CASTLING_MASKS[H8] = 15 & ~BLACK_KINGSIDE;
+
+interface BoardMove {
+  from: number;
+  to: number;
+  piece: number;
+  captured: number;
+  promotion: number;
+  flags: number;
+}
+
+// What makeMove changes that cannot be worked out again from the move itself
+interface UndoRecord {
+  move: BoardMove;
+  castling: number;
+  enPassant: number;
+  halfmoveClock: number;
+  hashLow: number;
+  hashHigh: number;
+}
+
+// Zobrist keys are 64-bit, held as two 32-bit halves to keep hashing in plain numbers
+interface ZobristKeys {
+  pieces: [Uint32Array, Uint32Array];
+  side: [number, number];
+  castling: [Uint32Array, Uint32Array];
+  enPassantFile: [Uint32Array, Uint32Array];
+}
+
+// Fixed-seed generator, so hashes are the same on every run
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state ^= state << 13;
+    state >>>= 0;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state;
+  };
+}
+
+function createZobristKeys(): ZobristKeys {
+  const random = createRandom(0x9e3779b9);
+  const fill = (length: number): [Uint32Array, Uint32Array] => {
+    const low = new Uint32Array(length);
+    const high = new Uint32Array(length);
+    for (let i = 0; i < length; i++) {
+      low[i] = random();
+      high[i] = random();
+    }
+    return [low, high];
+  };
+  return {
+    // Indexed by piece * 128 + square
+    pieces: fill(16 * 128),
+    side: [random(), random()],
+    castling: fill(16),
+    enPassantFile: fill(8)
+  };
+}
+
+const ZOBRIST = createZobristKeys();
+
+const toSquare = (position: ChessPosition) => position.y * 16 + position.x;
+const fromSquare = (square: number): ChessPosition => ({ x: square & 7, y: square >> 4 });
+const colorOf = (piece: number): PieceColor => (piece & BLACK ? 'b' : 'w');
+
+/**
+ * A position that moves can be made on and taken back. Moves are generated
+ * pseudo-legally and kept only if they do not leave the mover's king attacked.
+ */
+export class Board {
+  private squares = new Int8Array(128);
+  private turn = WHITE_SIDE;
+  private castling = 0;
+  // Square a pawn can be captured on en passant, or -1
+  private enPassant = -1;
+  private halfmoveClock = 0;
+  private fullmoveNumber = 1;
+  private kings = [-1, -1];
+  private hashLow = 0;
+  private hashHigh = 0;
+  private history: UndoRecord[] = [];
+
+  /**
+   * @param position The position to start from
+   * @throws Error if either side does not have exactly one king
+   */
+  constructor(position: Position) {
+    for (const piece of position.pieces) {
+      const code = TYPE_CODES[piece.type] | (piece.color === 'b' ? BLACK : 0);
+      const square = toSquare(piece.position);
+      if (piece.type === 'k') {
+        const side = piece.color === 'w' ? WHITE_SIDE : BLACK_SIDE;
+        if (this.kings[side] !== -1) {
+          throw new Error(`${piece.color === 'w' ? 'White' : 'Black'} has more than one king`);
+        }
+        this.kings[side] = square;
+      }
+      this.squares[square] = code;
+    }
+    if (this.kings[WHITE_SIDE] === -1 || this.kings[BLACK_SIDE] === -1) {
+      throw new Error('Both sides need a king');
+    }
+
+    const { castling } = position;
+    this.turn = position.turn === 'w' ? WHITE_SIDE : BLACK_SIDE;
+    this.castling = (castling.whiteKingside ? WHITE_KINGSIDE : 0) |
+      (castling.whiteQueenside ? WHITE_QUEENSIDE : 0) |
+      (castling.blackKingside ? BLACK_KINGSIDE : 0) |
+      (castling.blackQueenside ? BLACK_QUEENSIDE : 0);
+    this.enPassant = position.enPassant ? toSquare(position.enPassant) : -1;
+    this.halfmoveClock = position.halfmoveClock;
+    this.fullmoveNumber = position.fullmoveNumber;
+    this.computeHash();
+  }
+
+  /**
+   * Zobrist hash of the position: the pieces, the side to move, the castling
+   * rights and the en passant file. Move counters are left out, so repeated
+   * positions hash the same.
+   */
+  get hash(): bigint {
+    return (BigInt(this.hashHigh >>> 0) << 32n) | BigInt(this.hashLow >>> 0);
+  }
+
+  /**
+   * Reads the position back out
+   * @returns The position in the validator's terms
+   */
+  position(): Position {
+    const pieces: PlacedPiece[] = [];
+    for (let square = 0; square < 128; square++) {
+      const piece = this.squares[square];
+      if (!(square & 0x88) && piece) {
+        pieces.push({ color: colorOf(piece), type: PIECE_TYPES[piece & 7], position: fromSquare(square) });
+      }
+    }
+    const rights: CastlingRights = {
+      whiteKingside: (this.castling & WHITE_KINGSIDE) !== 0,
+      whiteQueenside: (this.castling & WHITE_QUEENSIDE) !== 0,
+      blackKingside: (this.castling & BLACK_KINGSIDE) !== 0,
+      blackQueenside: (this.castling & BLACK_QUEENSIDE) !== 0
+    };
+    return {
+      pieces,
+      turn: this.turn === WHITE_SIDE ? 'w' : 'b',
+      castling: rights,
+      enPassant: this.enPassant === -1 ? null : fromSquare(this.enPassant),
+      halfmoveClock: this.halfmoveClock,
+      fullmoveNumber: this.fullmoveNumber
+    };
+  }
+
+  /**
+   * Checks whether the side to move is in check
+   * @returns True if its king is attacked
+   */
+  inCheck(): boolean {
+    return this.isAttacked(this.kings[this.turn], this.turn ^ 1);
+  }
+
+  /**
+   * Lists the legal moves of the side to move
+   * @returns The moves
+   */
+  moves(): GeneratedMove[] {
+    return this.legalMoves().map(move => ({
+      from: fromSquare(move.from),
+      to: fromSquare(move.to),
+      piece: PIECE_TYPES[move.piece & 7],
+      ...(move.captured ? { captured: PIECE_TYPES[move.captured & 7] } : {}),
+      ...(move.promotion ? { promotion: PIECE_TYPES[move.promotion & 7] } : {}),
+      ...(move.flags & KINGSIDE ? { castling: 'kingside' as const } : {}),
+      ...(move.flags & QUEENSIDE ? { castling: 'queenside' as const } : {}),
+      ...(move.flags & EN_PASSANT ? { enPassant: true } : {})
+    }));
+  }
+
+  /**
+   * Plays a move; castling is given as the king moving two squares
+   * @param request The move's squares, and its promotion piece if it has one
+   * @throws Error if the move is not legal
+   */
+  makeMove(request: MoveRequest): void {
+    const from = toSquare(request.from);
+    const to = toSquare(request.to);
+    const promotion = request.promotion ? TYPE_CODES[request.promotion] : 0;
+    const move = this.legalMoves().find(candidate =>
+      candidate.from === from && candidate.to === to && (candidate.promotion & 7) === promotion);
+    if (!move) {
+      throw new Error(`Illegal move ${positionToAlgebraic(request.from)}${positionToAlgebraic(request.to)}${request.promotion ?? ''}`);
+    }
+    this.make(move);
+  }
+
+  /**
+   * Takes back the last move made
+   * @throws Error if no move has been made
+   */
+  unmakeMove(): void {
+    if (this.history.length === 0) {
+      throw new Error('No move to take back');
+    }
+    this.unmake();
+  }
+
+  /**
+   * Counts the leaf nodes of the legal move tree to a depth, for checking
+   * the generator against known totals
+   * @param depth Plies to search
+   * @returns The number of move sequences of that length
+   */
+  perft(depth: number): number {
+    const moves = this.legalMoves();
+    if (depth <= 1) {
+      return depth === 1 ? moves.length : 1;
+    }
+    let nodes = 0;
+    for (const move of moves) {
+      this.make(move);
+      nodes += this.perft(depth - 1);
+      this.unmake();
+    }
+    return nodes;
+  }
+
+  private legalMoves(): BoardMove[] {
+    const us = this.turn;
+    return this.pseudoLegalMoves().filter(move => {
+      this.make(move);
+      const legal = !this.isAttacked(this.kings[us], us ^ 1);
+      this.unmake();
+      return legal;
+    });
+  }
+
+  private pseudoLegalMoves(): BoardMove[] {
+    const moves: BoardMove[] = [];
+    const us = this.turn;
+    const ownColor = us === WHITE_SIDE ? 0 : BLACK;
+
+    const add = (from: number, to: number, flags = 0, promotion = 0) => {
+      const captured = flags & EN_PASSANT ? PAWN | (ownColor ^ BLACK) : this.squares[to];
+      moves.push({
+        from,
+        to,
+        piece: this.squares[from],
+        captured,
+        promotion,
+        flags: captured ? flags | CAPTURE : flags
+      });
+    };
+    const addPawnMove = (from: number, to: number, flags = 0) => {
+      const lastRank = us === WHITE_SIDE ? 7 : 0;
+      if (to >> 4 === lastRank) {
+        PROMOTIONS.forEach(type => add(from, to, flags, type | ownColor));
+      } else {
+        add(from, to, flags);
+      }
+    };
+    const isEnemy = (square: number) => this.squares[square] !== 0 && (this.squares[square] & BLACK) !== ownColor;
+
+    for (let from = 0; from < 128; from++) {
+      if (from & 0x88) {
+        from += 7;
+        continue;
+      }
+      const piece = this.squares[from];
+      if (!piece || (piece & BLACK) !== ownColor) continue;
+
+      switch (piece & 7) {
+        case PAWN: {
+          const forward = us === WHITE_SIDE ? 16 : -16;
+          const startRank = us === WHITE_SIDE ? 1 : 6;
+          const one = from + forward;
+          if (!(one & 0x88) && !this.squares[one]) {
+            addPawnMove(from, one);
+            if (from >> 4 === startRank && !this.squares[one + forward]) {
+              add(from, one + forward, DOUBLE_PUSH);
+            }
+          }
+          for (const side of [-1, 1]) {
+            const to = one + side;
+            if (to & 0x88) continue;
+            if (isEnemy(to)) {
+              addPawnMove(from, to);
+            } else if (to === this.enPassant) {
+              add(from, to, EN_PASSANT);
+            }
+          }
+          break;
+        }
+        case KNIGHT:
+        case KING: {
+          const offsets = (piece & 7) === KNIGHT ? KNIGHT_OFFSETS : KING_OFFSETS;
+          for (const offset of offsets) {
+            const to = from + offset;
+            if (!(to & 0x88) && (!this.squares[to] || isEnemy(to))) {
+              add(from, to);
+            }
+          }
+          break;
+        }
+        default: {
+          const type = piece & 7;
+          const offsets = type === ROOK ? ROOK_OFFSETS : type === BISHOP ? BISHOP_OFFSETS : QUEEN_OFFSETS;
+          for (const offset of offsets) {
+            for (let to = from + offset; !(to & 0x88); to += offset) {
+              if (!this.squares[to]) {
+                add(from, to);
+                continue;
+              }
+              if (isEnemy(to)) {
+                add(from, to);
+              }
+              break;
+            }
+          }
+        }
+      }
+    }
+
+    this.addCastlingMoves(add);
+    return moves;
+  }
+
+  // The king may not castle out of or through check; landing in check is caught with the other illegal moves
+  private addCastlingMoves(add: (from: number, to: number, flags: number) => void): void {
+    const us = this.turn;
+    const them = us ^ 1;
+    const king = us === WHITE_SIDE ? E1 : E8;
+    const rook = ROOK | (us === WHITE_SIDE ? 0 : BLACK);
+    const kingside = us === WHITE_SIDE ? WHITE_KINGSIDE : BLACK_KINGSIDE;
+    const queenside = us === WHITE_SIDE ? WHITE_QUEENSIDE : BLACK_QUEENSIDE;
+    if (this.kings[us] !== king || !(this.castling & (kingside | queenside)) || this.isAttacked(king, them)) {
+      return;
+    }
+
+    if (
+      this.castling & kingside &&
+      this.squares[king + 3] === rook &&
+      !this.squares[king + 1] && !this.squares[king + 2] &&
+      !this.isAttacked(king + 1, them)
+    ) {
+      add(king, king + 2, KINGSIDE);
+    }
+    if (
+      this.castling & queenside &&
+      this.squares[king - 4] === rook &&
+      !this.squares[king - 1] && !this.squares[king - 2] && !this.squares[king - 3] &&
+      !this.isAttacked(king - 1, them)
+    ) {
+      add(king, king - 2, QUEENSIDE);
+    }
+  }
+
+  private isAttacked(square: number, by: number): boolean {
+    const color = by === WHITE_SIDE ? 0 : BLACK;
+
+    // Pawns attack diagonally forward, so look back from the target
+    const pawn = PAWN | color;
+    const behind = by === WHITE_SIDE ? -16 : 16;
+    for (const side of [-1, 1]) {
+      const from = square + behind + side;
+      if (!(from & 0x88) && this.squares[from] === pawn) return true;
+    }
+
+    for (const offset of KNIGHT_OFFSETS) {
+      const from = square + offset;
+      if (!(from & 0x88) && this.squares[from] === (KNIGHT | color)) return true;
+    }
+    for (const offset of KING_OFFSETS) {
+      const from = square + offset;
+      if (!(from & 0x88) && this.squares[from] === (KING | color)) return true;
+    }
+
+    const slides = (offsets: number[], straightOrDiagonal: number) => offsets.some(offset => {
+      for (let from = square + offset; !(from & 0x88); from += offset) {
+        const piece = this.squares[from];
+        if (!piece) continue;
+        return piece === (straightOrDiagonal | color) || piece === (QUEEN | color);
+      }
+      return false;
+    });
+    return slides(ROOK_OFFSETS, ROOK) || slides(BISHOP_OFFSETS, BISHOP);
+  }
+
+  private make(move: BoardMove): void {
+    const us = this.turn;
+    this.history.push({
+      move,
+      castling: this.castling,
+      enPassant: this.enPassant,
+      halfmoveClock: this.halfmoveClock,
+      hashLow: this.hashLow,
+      hashHigh: this.hashHigh
+    });
+
+    if (this.enPassant !== -1) this.toggleEnPassant(this.enPassant);
+    this.toggleCastling(this.castling);
+
+    const { from, to, piece, captured, promotion, flags } = move;
+    if (captured) {
+      const capturedAt = flags & EN_PASSANT ? to + (us === WHITE_SIDE ? -16 : 16) : to;
+      this.toggle(captured, capturedAt);
+      this.squares[capturedAt] = 0;
+    }
+    this.toggle(piece, from);
+    this.squares[from] = 0;
+    const placed = promotion || piece;
+    this.toggle(placed, to);
+    this.squares[to] = placed;
+
+    if (flags & (KINGSIDE | QUEENSIDE)) {
+      const rookFrom = flags & KINGSIDE ? to + 1 : to - 2;
+      const rookTo = flags & KINGSIDE ? to - 1 : to + 1;
+      const rook = this.squares[rookFrom];
+      this.toggle(rook, rookFrom);
+      this.toggle(rook, rookTo);
+      this.squares[rookTo] = rook;
+      this.squares[rookFrom] = 0;
+    }
+    if ((piece & 7) === KING) {
+      this.kings[us] = to;
+    }
+
+    this.castling &= CASTLING_MASKS[from] & CASTLING_MASKS[to];
+    this.toggleCastling(this.castling);
+    this.enPassant = flags & DOUBLE_PUSH ? (from + to) >> 1 : -1;
+    if (this.enPassant !== -1) this.toggleEnPassant(this.enPassant);
+
+    this.halfmoveClock = (piece & 7) === PAWN || captured ? 0 : this.halfmoveClock + 1;
+    if (us === BLACK_SIDE) this.fullmoveNumber++;
+    this.turn = us ^ 1;
+    this.hashLow ^= ZOBRIST.side[0];
+    this.hashHigh ^= ZOBRIST.side[1];
+  }
+
+  // Restores the squares directly and the hash from the record, without rehashing
+  private unmake(): void {
+    const { move, castling, enPassant, halfmoveClock, hashLow, hashHigh } = this.history.pop() as UndoRecord;
+    const us = this.turn ^ 1;
+    const { from, to, piece, captured, flags } = move;
+
+    this.squares[from] = piece;
+    this.squares[to] = 0;
+    if (captured) {
+      this.squares[flags & EN_PASSANT ? to + (us === WHITE_SIDE ? -16 : 16) : to] = captured;
+    }
+    if (flags & (KINGSIDE | QUEENSIDE)) {
+      const rookFrom = flags & KINGSIDE ? to + 1 : to - 2;
+      const rookTo = flags & KINGSIDE ? to - 1 : to + 1;
+      this.squares[rookFrom] = this.squares[rookTo];
+      this.squares[rookTo] = 0;
+    }
+    if ((piece & 7) === KING) {
+      this.kings[us] = from;
+    }
+
+    this.turn = us;
+    this.castling = castling;
+    this.enPassant = enPassant;
+    this.halfmoveClock = halfmoveClock;
+    if (us === BLACK_SIDE) this.fullmoveNumber--;
+    this.hashLow = hashLow;
+    this.hashHigh = hashHigh;
+  }
+
+  private computeHash(): void {
+    this.hashLow = 0;
+    this.hashHigh = 0;
+    for (let square = 0; square < 128; square++) {
+      if (!(square & 0x88) && this.squares[square]) {
+        this.toggle(this.squares[square], square);
+      }
+    }
+    this.toggleCastling(this.castling);
+    if (this.enPassant !== -1) this.toggleEnPassant(this.enPassant);
+    if (this.turn === BLACK_SIDE) {
+      this.hashLow ^= ZOBRIST.side[0];
+      this.hashHigh ^= ZOBRIST.side[1];
+    }
+  }
+
+  private toggle(piece: number, square: number): void {
+    this.hashLow ^= ZOBRIST.pieces[0][piece * 128 + square];
+    this.hashHigh ^= ZOBRIST.pieces[1][piece * 128 + square];
+  }
+
+  private toggleCastling(castling: number): void {
+    this.hashLow ^= ZOBRIST.castling[0][castling];
+    this.hashHigh ^= ZOBRIST.castling[1][castling];
+  }
+
+  private toggleEnPassant(square: number): void {
+    this.hashLow ^= ZOBRIST.enPassantFile[0][square & 7];
+    this.hashHigh ^= ZOBRIST.enPassantFile[1][square & 7];
+  }
+}
+
+/**
+ * Sets up a board from a FEN
+ * @param fen The FEN
+ * @returns The board
+ * @throws Error with the first problem found in the FEN
+ */
+export function boardFromFen(fen: string): Board {
+  const { position, errors } = parseFen(fen);
+  if (!position) {
+    throw new Error(`Invalid FEN: ${errors[0].message}`);
+  }
+  return new Board(position);
+}
@@ -0,0 +1,322 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { PgnGame, PgnMove, PgnResult } from '@/lib/pgn';
+import { GameVariant, createPosition, variantFromPgn } from '@/lib/variants';
+import { fenErrors } from '@/lib/chess-validator';
+
+// A game with its variations: each node's first child continues the line it
+// belongs to and any further children are alternatives to that continuation
+export interface MoveNode {
+  id: string;
+  san: string;
+  uci: string;
+  // Position after the move
+  fen: string;
+  comment?: string;
+  // Numeric Annotation Glyphs, e.g. 1 for "!" and 2 for "?"
+  nags: number[];
+  // Mover's remaining clock time after the move, in milliseconds
+  clock?: number;
+  children: MoveNode[];
+}
+
+export interface MoveTree {
+  startFen: string;
+  // Rule set the moves follow, standard chess when unset
+  variant?: GameVariant;
+  // Comment placed before the first move
+  comment?: string;
+  children: MoveNode[];
+}
+
+// Ids of the nodes from the first move to the selected one; empty for the start position
+export type TreePath = string[];
+
+let nextNodeId = 0;
+
+const createNodeId = () => `m${++nextNodeId}`;
+
+/**
+ * Creates a tree with no moves
+ * @param startFen The starting position
+ * @param variant The rule set, standard chess if left out
+ * @returns The empty tree
+ */
+export function createMoveTree(startFen: string = DEFAULT_POSITION, variant?: GameVariant): MoveTree {
+  return { startFen, variant, children: [] };
+}
+
+/**
+ * Follows a path through the tree
+ * @param tree The tree
+ * @param path The path to follow
+ * @returns The nodes along the path, stopping early if a node is missing
+ */
+export function nodesAlongPath(tree: MoveTree, path: TreePath): MoveNode[] {
+  const nodes: MoveNode[] = [];
+  let children = tree.children;
+  for (const id of path) {
+    const node = children.find(child => child.id === id);
+    if (!node) break;
+    nodes.push(node);
+    children = node.children;
+  }
+  return nodes;
+}
+
+/**
+ * Gets the node a path leads to
+ * @param tree The tree
+ * @param path The path
+ * @returns The node, or null for the starting position
+ */
+export function nodeAt(tree: MoveTree, path: TreePath): MoveNode | null {
+  const nodes = nodesAlongPath(tree, path);
+  return nodes.length > 0 ? nodes[nodes.length - 1] : null;
+}
+
+/**
+ * Gets the position a path leads to
+ * @param tree The tree
+ * @param path The path
+ * @returns The FEN after the last move on the path
+ */
+export function fenAt(tree: MoveTree, path: TreePath): string {
+  return nodeAt(tree, path)?.fen ?? tree.startFen;
+}
+
+/**
+ * Gets the moves that may follow the position a path leads to
+ * @param tree The tree
+ * @param path The path
+ * @returns The continuations, main one first
+ */
+export function childrenAt(tree: MoveTree, path: TreePath): MoveNode[] {
+  return nodeAt(tree, path)?.children ?? tree.children;
+}
+
+/**
+ * Extends a path along the main continuation to the end of its line
+ * @param tree The tree
+ * @param path Where to start; the start position by default
+ * @returns The extended path
+ */
+export function lineEndPath(tree: MoveTree, path: TreePath = []): TreePath {
+  const extended = [...path];
+  let children = childrenAt(tree, path);
+  while (children.length > 0) {
+    extended.push(children[0].id);
+    children = children[0].children;
+  }
+  return extended;
+}
+
+/**
+ * Whether every move on a path belongs to the game's mainline
+ * @param tree The tree
+ * @param path The path
+ * @returns True for mainline positions
+ */
+export function isMainline(tree: MoveTree, path: TreePath): boolean {
+  let children = tree.children;
+  for (const id of path) {
+    if (children[0]?.id !== id) return false;
+    children = children[0].children;
+  }
+  return true;
+}
+
+// Rebuilds the branch leading to a path, replacing the children found there
+function updateChildren(
+  children: MoveNode[],
+  path: TreePath,
+  update: (children: MoveNode[]) => MoveNode[]
+): MoveNode[] {
+  if (path.length === 0) {
+    return update(children);
+  }
+  const [id, ...rest] = path;
+  return children.map(child => child.id === id
+    ? { ...child, children: updateChildren(child.children, rest, update) }
+    : child);
+}
+
+/**
+ * Plays a move from the position a path leads to. A move already in the
+ * tree is followed rather than added again; a new one becomes the main
+ * continuation if there is none, otherwise a variation.
+ * @param tree The tree
+ * @param path Position to play from
+ * @param move The move
+ * @returns The updated tree and the path to the move, or null if the move is illegal
+ */
+export function addMove(
+  tree: MoveTree,
+  path: TreePath,
+  move: { from: string; to: string; promotion?: string } | string
+): { tree: MoveTree; path: TreePath } | null {
+  const chess = createPosition(tree.variant, fenAt(tree, path));
+  let played;
+  try {
+    played = chess.move(move);
+  } catch {
+    return null;
+  }
+
+  const uci = `${played.from}${played.to}${played.promotion ?? ''}`;
+  const existing = childrenAt(tree, path).find(child => child.uci === uci);
+  if (existing) {
+    return { tree, path: [...path, existing.id] };
+  }
+
+  const node: MoveNode = { id: createNodeId(), san: played.san, uci, fen: played.after, nags: [], children: [] };
+  return {
+    tree: { ...tree, children: updateChildren(tree.children, path, children => [...children, node]) },
+    path: [...path, node.id]
+  };
+}
+
+/**
+ * Makes the line through a node the mainline, at every level above it
+ * @param tree The tree
+ * @param path Path to a node in a variation
+ * @returns The updated tree
+ */
+export function promoteToMainline(tree: MoveTree, path: TreePath): MoveTree {
+  let children = tree.children;
+  for (let depth = 0; depth < path.length; depth++) {
+    const id = path[depth];
+    const parentPath = path.slice(0, depth);
+    children = updateChildren(children, parentPath, siblings => [
+      ...siblings.filter(sibling => sibling.id === id),
+      ...siblings.filter(sibling => sibling.id !== id)
+    ]);
+  }
+  return { ...tree, children };
+}
+
+/**
+ * Removes a move and everything after it
+ * @param tree The tree
+ * @param path Path to the move to remove
+ * @returns The updated tree
+ */
+export function deleteNode(tree: MoveTree, path: TreePath): MoveTree {
+  if (path.length === 0) {
+    return tree;
+  }
+  const id = path[path.length - 1];
+  return {
+    ...tree,
+    children: updateChildren(tree.children, path.slice(0, -1), siblings => siblings.filter(sibling => sibling.id !== id))
+  };
+}
+
+/**
+ * Changes the annotations of a move
+ * @param tree The tree
+ * @param path Path to the move
+ * @param changes The new comment and glyphs
+ * @returns The updated tree
+ */
+export function annotateNode(
+  tree: MoveTree,
+  path: TreePath,
+  changes: Partial<Pick<MoveNode, 'comment' | 'nags'>>
+): MoveTree {
+  if (path.length === 0) {
+    return 'comment' in changes ? { ...tree, comment: changes.comment } : tree;
+  }
+  const id = path[path.length - 1];
+  return {
+    ...tree,
+    children: updateChildren(tree.children, path.slice(0, -1), siblings => siblings.map(sibling =>
+      sibling.id === id ? { ...sibling, ...changes } : sibling))
+  };
+}
+
+/**
+ * Builds a tree from a parsed game, including its variations
+ * @param game The parsed game
+ * @returns The tree
+ * @throws Error naming the first illegal or unreadable move, or what is wrong with the FEN tag
+ */
+export function moveTreeFromPgn(game: PgnGame): MoveTree {
+  const startFen = game.startFen ?? DEFAULT_POSITION;
+  const variant = variantFromPgn(game.headers);
+
+  // Chess960 castling rights name rooks the standard checks know nothing about
+  if (game.startFen && variant === 'standard') {
+    const [error] = fenErrors(game.startFen);
+    if (error) {
+      throw new Error(`Invalid FEN tag: ${error.message}`);
+    }
+  }
+
+  const buildLine = (fen: string, moves: PgnMove[], plyOffset: number): MoveNode[] => {
+    const [first, ...rest] = moves;
+    if (!first) return [];
+
+    const chess = createPosition(variant, fen);
+    let played;
+    try {
+      played = chess.move(first.san);
+    } catch {
+      played = null;
+    }
+    if (!played) {
+      throw new Error(`Illegal move "${first.san}" at move ${Math.floor(plyOffset / 2) + 1}`);
+    }
+
+    const node: MoveNode = {
+      id: createNodeId(),
+      san: played.san,
+      uci: `${played.from}${played.to}${played.promotion ?? ''}`,
+      fen: played.after,
+      comment: first.comment,
+      nags: first.nags ?? [],
+      clock: first.clock,
+      children: buildLine(played.after, rest, plyOffset + 1)
+    };
+    // Variations are alternatives to this move, so they start from the same position
+    const alternatives = (first.variations ?? []).flatMap(variation => buildLine(fen, variation, plyOffset));
+    return [node, ...alternatives];
+  };
+
+  // Moves are numbered from the start position's fullmove counter
+  const [, turn, , , , fullmove] = startFen.split(' ');
+  const plyOffset = ((parseInt(fullmove) || 1) - 1) * 2 + (turn === 'b' ? 1 : 0);
+
+  return { startFen, variant, comment: game.comment, children: buildLine(startFen, game.moves, plyOffset) };
+}
+
+/**
+ * Converts a tree to a game that can be written as PGN
+ * @param tree The tree
+ * @param headers Tag pairs for the game
+ * @param result The game result
+ * @returns The game with variations in place
+ */
+export function moveTreeToPgn(tree: MoveTree, headers: Record<string, string>, result: PgnResult): PgnGame {
+  const toLine = (children: MoveNode[]): PgnMove[] => {
+    const [main, ...alternatives] = children;
+    if (!main) return [];
+    return [
+      {
+        san: main.san,
+        clock: main.clock,
+        comment: main.comment,
+        nags: main.nags.length > 0 ? main.nags : undefined,
+        variations: alternatives.length > 0 ? alternatives.map(alternative => toLine([alternative])) : undefined
+      },
+      ...toLine(main.children)
+    ];
+  };
+
+  return {
+    headers,
+    moves: toLine(tree.children),
+    result,
+    startFen: tree.startFen,
+    comment: tree.comment
+  };
+}
@@ -0,0 +1,119 @@
+// Common openings, named by the Encyclopaedia of Chess Openings code and move order
+export interface Opening {
+  eco: string;
+  name: string;
+  // Moves in SAN separated by spaces
+  moves: string;
+}
+
+export const OPENINGS: Opening[] = [
+  { eco: 'A00', name: 'Polish Opening', moves: 'b4' },
+  { eco: 'A00', name: 'Grob Opening', moves: 'g4' },
+  { eco: 'A01', name: 'Nimzo-Larsen Attack', moves: 'b3' },
+  { eco: 'A02', name: "Bird's Opening", moves: 'f4' },
+  { eco: 'A04', name: 'Réti Opening', moves: 'Nf3' },
+  { eco: 'A05', name: 'Réti Opening: King\'s Indian Attack', moves: 'Nf3 Nf6 g3' },
+  { eco: 'A10', name: 'English Opening', moves: 'c4' },
+  { eco: 'A20', name: 'English Opening: King\'s English', moves: 'c4 e5' },
+  { eco: 'A30', name: 'English Opening: Symmetrical Variation', moves: 'c4 c5' },
+  { eco: 'A40', name: 'Queen\'s Pawn Game', moves: 'd4' },
+  { eco: 'A45', name: 'Indian Defense', moves: 'd4 Nf6' },
+  { eco: 'A46', name: 'Indian Defense: Knights Variation', moves: 'd4 Nf6 Nf3' },
+  { eco: 'A48', name: 'London System', moves: 'd4 Nf6 Nf3 g6 Bf4' },
+  { eco: 'D02', name: 'London System', moves: 'd4 d5 Nf3 Nf6 Bf4' },
+  { eco: 'D00', name: 'London System', moves: 'd4 d5 Bf4' },
+  { eco: 'A57', name: 'Benko Gambit', moves: 'd4 Nf6 c4 c5 d5 b5' },
+  { eco: 'A60', name: 'Benoni Defense', moves: 'd4 Nf6 c4 c5 d5 e6' },
+  { eco: 'A80', name: 'Dutch Defense', moves: 'd4 f5' },
+  { eco: 'B00', name: 'King\'s Pawn Game', moves: 'e4' },
+  { eco: 'B00', name: 'Nimzowitsch Defense', moves: 'e4 Nc6' },
+  { eco: 'B01', name: 'Scandinavian Defense', moves: 'e4 d5' },
+  { eco: 'B02', name: 'Alekhine Defense', moves: 'e4 Nf6' },
+  { eco: 'B06', name: 'Modern Defense', moves: 'e4 g6' },
+  { eco: 'B07', name: 'Pirc Defense', moves: 'e4 d6 d4 Nf6 Nc3' },
+  { eco: 'B10', name: 'Caro-Kann Defense', moves: 'e4 c6' },
+  { eco: 'B12', name: 'Caro-Kann Defense: Advance Variation', moves: 'e4 c6 d4 d5 e5' },
+  { eco: 'B13', name: 'Caro-Kann Defense: Exchange Variation', moves: 'e4 c6 d4 d5 exd5 cxd5' },
+  { eco: 'B20', name: 'Sicilian Defense', moves: 'e4 c5' },
+  { eco: 'B21', name: 'Sicilian Defense: Smith-Morra Gambit', moves: 'e4 c5 d4 cxd4 c3' },
+  { eco: 'B22', name: 'Sicilian Defense: Alapin Variation', moves: 'e4 c5 c3' },
+  { eco: 'B23', name: 'Sicilian Defense: Closed', moves: 'e4 c5 Nc3' },
+  { eco: 'B27', name: 'Sicilian Defense: Hyperaccelerated Dragon', moves: 'e4 c5 Nf3 g6' },
+  { eco: 'B30', name: 'Sicilian Defense: Old Sicilian', moves: 'e4 c5 Nf3 Nc6' },
+  { eco: 'B40', name: 'Sicilian Defense: French Variation', moves: 'e4 c5 Nf3 e6' },
+  { eco: 'B50', name: 'Sicilian Defense: Modern Variations', moves: 'e4 c5 Nf3 d6' },
+  { eco: 'B54', name: 'Sicilian Defense: Open', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4' },
+  { eco: 'B70', name: 'Sicilian Defense: Dragon Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6' },
+  { eco: 'B90', name: 'Sicilian Defense: Najdorf Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6' },
+  { eco: 'C00', name: 'French Defense', moves: 'e4 e6' },
+  { eco: 'C02', name: 'French Defense: Advance Variation', moves: 'e4 e6 d4 d5 e5' },
+  { eco: 'C03', name: 'French Defense: Tarrasch Variation', moves: 'e4 e6 d4 d5 Nd2' },
+  { eco: 'C10', name: 'French Defense: Paulsen Variation', moves: 'e4 e6 d4 d5 Nc3' },
+  { eco: 'C15', name: 'French Defense: Winawer Variation', moves: 'e4 e6 d4 d5 Nc3 Bb4' },
+  { eco: 'C20', name: 'King\'s Pawn Game', moves: 'e4 e5' },
+  { eco: 'C23', name: 'Bishop\'s Opening', moves: 'e4 e5 Bc4' },
+  { eco: 'C25', name: 'Vienna Game', moves: 'e4 e5 Nc3' },
+  { eco: 'C30', name: 'King\'s Gambit', moves: 'e4 e5 f4' },
+  { eco: 'C33', name: 'King\'s Gambit Accepted', moves: 'e4 e5 f4 exf4' },
+  { eco: 'C40', name: 'King\'s Knight Opening', moves: 'e4 e5 Nf3' },
+  { eco: 'C41', name: 'Philidor Defense', moves: 'e4 e5 Nf3 d6' },
+  { eco: 'C42', name: 'Petrov\'s Defense', moves: 'e4 e5 Nf3 Nf6' },
+  { eco: 'C44', name: 'King\'s Knight Opening: Normal Variation', moves: 'e4 e5 Nf3 Nc6' },
+  { eco: 'C44', name: 'Ponziani Opening', moves: 'e4 e5 Nf3 Nc6 c3' },
+  { eco: 'C45', name: 'Scotch Game', moves: 'e4 e5 Nf3 Nc6 d4' },
+  { eco: 'C46', name: 'Three Knights Opening', moves: 'e4 e5 Nf3 Nc6 Nc3' },
+  { eco: 'C47', name: 'Four Knights Game', moves: 'e4 e5 Nf3 Nc6 Nc3 Nf6' },
+  { eco: 'C50', name: 'Italian Game', moves: 'e4 e5 Nf3 Nc6 Bc4' },
+  { eco: 'C50', name: 'Italian Game: Giuoco Piano', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5' },
+  { eco: 'C51', name: 'Italian Game: Evans Gambit', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5 b4' },
+  { eco: 'C55', name: 'Italian Game: Two Knights Defense', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6' },
+  { eco: 'C57', name: 'Italian Game: Two Knights Defense, Fried Liver Attack', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 Nxf7' },
+  { eco: 'C60', name: 'Ruy Lopez', moves: 'e4 e5 Nf3 Nc6 Bb5' },
+  { eco: 'C65', name: 'Ruy Lopez: Berlin Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 Nf6' },
+  { eco: 'C68', name: 'Ruy Lopez: Exchange Variation', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6' },
+  { eco: 'C70', name: 'Ruy Lopez: Morphy Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 a6' },
+  { eco: 'C84', name: 'Ruy Lopez: Closed', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7' },
+  { eco: 'D00', name: 'Queen\'s Pawn Game', moves: 'd4 d5' },
+  { eco: 'D06', name: 'Queen\'s Gambit', moves: 'd4 d5 c4' },
+  { eco: 'D07', name: 'Queen\'s Gambit Declined: Chigorin Defense', moves: 'd4 d5 c4 Nc6' },
+  { eco: 'D08', name: 'Queen\'s Gambit Declined: Albin Countergambit', moves: 'd4 d5 c4 e5' },
+  { eco: 'D10', name: 'Slav Defense', moves: 'd4 d5 c4 c6' },
+  { eco: 'D20', name: 'Queen\'s Gambit Accepted', moves: 'd4 d5 c4 dxc4' },
+  { eco: 'D30', name: 'Queen\'s Gambit Declined', moves: 'd4 d5 c4 e6' },
+  { eco: 'D43', name: 'Semi-Slav Defense', moves: 'd4 d5 c4 e6 Nc3 Nf6 Nf3 c6' },
+  { eco: 'D80', name: 'Grünfeld Defense', moves: 'd4 Nf6 c4 g6 Nc3 d5' },
+  { eco: 'E00', name: 'Indian Defense: East Indian Defense', moves: 'd4 Nf6 c4 e6' },
+  { eco: 'E01', name: 'Catalan Opening', moves: 'd4 Nf6 c4 e6 g3' },
+  { eco: 'E12', name: 'Queen\'s Indian Defense', moves: 'd4 Nf6 c4 e6 Nf3 b6' },
+  { eco: 'E20', name: 'Nimzo-Indian Defense', moves: 'd4 Nf6 c4 e6 Nc3 Bb4' },
+  { eco: 'E60', name: 'King\'s Indian Defense', moves: 'd4 Nf6 c4 g6' },
+  { eco: 'E61', name: 'King\'s Indian Defense', moves: 'd4 Nf6 c4 g6 Nc3 Bg7' }
+];
+
+/**
+ * Names the opening of a game from its first moves
+ * @param sans Moves of the game in SAN
+ * @returns The opening whose moves are the longest start of the game's, or null if none match
+ */
+export function identifyOpening(sans: string[]): Opening | null {
+  let best: Opening | null = null;
+  let bestLength = 0;
+  for (const opening of OPENINGS) {
+    const moves = opening.moves.split(' ');
+    if (moves.length <= bestLength || moves.length > sans.length) continue;
+    if (moves.every((move, index) => sans[index] === move)) {
+      best = opening;
+      bestLength = moves.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Formats an opening for display
+ * @param opening The opening
+ * @returns Text such as "C50 Italian Game"
+ */
+export function formatOpening(opening: Opening): string {
+  return `${opening.eco} ${opening.name}`;
+}
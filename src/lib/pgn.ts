@@ -0,0 +1,322 @@
+import { DEFAULT_POSITION } from 'chess.js';
+
+// Types for writing games in Portable Game Notation
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PgnMove {
+  san: string;
+  // Mover's remaining clock time after the move, in milliseconds
+  clock?: number;
+  comment?: string;
+  // Numeric Annotation Glyphs, e.g. 1 for "!" and 2 for "?"
+  nags?: number[];
+  // Alternatives to this move, each a line of moves starting in its place
+  variations?: PgnMove[][];
+}
+
+export interface PgnGame {
+  headers: Record<string, string>;
+  moves: PgnMove[];
+  result: PgnResult;
+  // FEN the game starts from, when not the standard position
+  startFen?: string;
+  // Comment placed before the first move
+  comment?: string;
+}
+
+// Tags that must appear first and in this order
+export const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+const MAX_LINE_LENGTH = 80;
+
+/**
+ * Formats a clock reading for a [%clk] comment
+ * @param ms Remaining time in milliseconds
+ * @returns Time as H:MM:SS
+ */
+export function formatPgnClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Formats a date for the Date tag
+ * @param date The date to format
+ * @returns Date as YYYY.MM.DD
+ */
+export function formatPgnDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}.${month}.${day}`;
+}
+
+// Escapes a tag value per the PGN specification
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+// Braces cannot be nested inside a comment
+function sanitizeComment(comment: string): string {
+  return comment.replace(/[{}]/g, '');
+}
+
+/**
+ * Serializes a game to PGN text
+ * @param game The game to serialize
+ * @returns PGN with the Seven Tag Roster first, then any other tags, then movetext
+ */
+export function writePgn(game: PgnGame): string {
+  const headers: Record<string, string> = { ...game.headers, Result: game.result };
+
+  delete headers.SetUp;
+  delete headers.FEN;
+  if (game.startFen && game.startFen !== DEFAULT_POSITION) {
+    headers.SetUp = '1';
+    headers.FEN = game.startFen;
+  }
+
+  const tagNames = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(headers).filter(name => !SEVEN_TAG_ROSTER.includes(name))
+  ];
+  const tags = tagNames.map(name => `[${name} "${escapeTagValue(headers[name] ?? '?')}"]`);
+
+  // The FEN decides who moves first and the starting move number
+  const fenFields = (game.startFen ?? DEFAULT_POSITION).split(' ');
+  const moveNumber = parseInt(fenFields[5]) || 1;
+  const whiteToMove = fenFields[1] !== 'b';
+
+  const tokens: string[] = [];
+  if (game.comment) {
+    tokens.push(`{${sanitizeComment(game.comment)}}`);
+  }
+  pushLineTokens(tokens, game.moves, moveNumber, whiteToMove);
+  tokens.push(game.result);
+
+  return `${tags.join('\n')}\n\n${wrapTokens(tokens)}\n`;
+}
+
+// Appends a line of moves, with its variations in parentheses, to the movetext
+function pushLineTokens(tokens: string[], moves: PgnMove[], moveNumber: number, whiteToMove: boolean): void {
+  moves.forEach((move, index) => {
+    const previous = moves[index - 1];
+    if (whiteToMove) {
+      tokens.push(`${moveNumber}.`);
+    } else if (!previous || previous.clock !== undefined || previous.comment || previous.variations?.length) {
+      // Black's move needs its number after the start or an interrupting comment or variation
+      tokens.push(`${moveNumber}...`);
+    }
+    tokens.push(move.san);
+    move.nags?.forEach(nag => tokens.push(`$${nag}`));
+
+    const comment = [
+      move.clock !== undefined ? `[%clk ${formatPgnClock(move.clock)}]` : '',
+      move.comment ? sanitizeComment(move.comment) : ''
+    ].filter(Boolean).join(' ');
+    if (comment) {
+      tokens.push(`{${comment}}`);
+    }
+
+    // A variation replaces this move, so it starts from the same move number
+    move.variations?.forEach(variation => {
+      const start = tokens.length;
+      pushLineTokens(tokens, variation, moveNumber, whiteToMove);
+      if (tokens.length > start) {
+        tokens[start] = `(${tokens[start]}`;
+        tokens[tokens.length - 1] = `${tokens[tokens.length - 1]})`;
+      }
+    });
+
+    if (!whiteToMove) {
+      moveNumber++;
+    }
+    whiteToMove = !whiteToMove;
+  });
+}
+
+// Joins movetext tokens into lines no longer than the PGN export limit
+function wrapTokens(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+const RESULT_TOKENS: PgnResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+/**
+ * Parses a [%clk H:MM:SS] command
+ * @param comment Comment text that may contain a clock command
+ * @returns Clock time in milliseconds, or undefined when absent
+ */
+export function parsePgnClock(comment: string): number | undefined {
+  const match = comment.match(/\[%clk\s+(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)\]/);
+  if (!match) {
+    return undefined;
+  }
+  const [, hours, mins, secs] = match;
+  return Math.round((parseInt(hours) * 3600 + parseInt(mins) * 60 + parseFloat(secs)) * 1000);
+}
+
+// Removes embedded [%command ...] annotations, leaving the human-readable text
+function stripCommands(comment: string): string {
+  return comment.replace(/\[%[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Move suffix annotations and the glyphs they stand for
+const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6
+};
+
+// Joins comment text, keeping any earlier comment first
+function appendComment(existing: string | undefined, comment: string): string {
+  return existing ? `${existing} ${comment}` : comment;
+}
+
+/**
+ * Parses PGN text containing one or more games, including variations,
+ * comments and annotation glyphs
+ * @param text PGN text
+ * @returns The games found, in file order
+ */
+export function parsePgn(text: string): PgnGame[] {
+  const games: PgnGame[] = [];
+  let current: PgnGame | null = null;
+  let inMovetext = false;
+  // The mainline at the bottom, then each variation being read inside it
+  let lines: PgnMove[][] = [];
+  // A comment that opens a variation waits for the variation's first move
+  let pendingComment: string | undefined;
+
+  const startGame = () => {
+    current = { headers: {}, moves: [], result: '*' };
+    games.push(current);
+    inMovetext = false;
+    lines = [current.moves];
+    pendingComment = undefined;
+  };
+
+  const tokenPattern = /\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]|\{([^}]*)\}|;[^\n]*|\(|\)|\$\d+|[^\s{}()[\];]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(text)) !== null) {
+    const [token, tagName, tagValue, comment] = match;
+
+    if (tagName !== undefined) {
+      // A tag after movetext begins the next game
+      if (!current || inMovetext) {
+        startGame();
+      }
+      current.headers[tagName] = tagValue.replace(/\\(.)/g, '$1');
+      continue;
+    }
+
+    if (!current) {
+      startGame();
+    }
+
+    const line = lines[lines.length - 1];
+    const lastMove = line[line.length - 1];
+
+    if (token === '(') {
+      // A variation is an alternative to the move just read
+      if (lastMove) {
+        const variation: PgnMove[] = [];
+        lastMove.variations = [...(lastMove.variations ?? []), variation];
+        lines.push(variation);
+      } else {
+        // Nowhere to attach it: read it into a line that is then dropped
+        lines.push([]);
+      }
+      continue;
+    }
+    if (token === ')') {
+      if (lines.length > 1) {
+        lines.pop();
+      }
+      pendingComment = undefined;
+      continue;
+    }
+    if (token.startsWith(';')) {
+      continue;
+    }
+    if (token.startsWith('$')) {
+      if (lastMove) {
+        lastMove.nags = [...(lastMove.nags ?? []), parseInt(token.slice(1))];
+      }
+      continue;
+    }
+
+    if (comment !== undefined) {
+      const textComment = stripCommands(comment);
+      if (lastMove) {
+        const clock = parsePgnClock(comment);
+        if (clock !== undefined) {
+          lastMove.clock = clock;
+        }
+        if (textComment) {
+          lastMove.comment = appendComment(lastMove.comment, textComment);
+        }
+      } else if (textComment && lines.length === 1) {
+        current.comment = appendComment(current.comment, textComment);
+      } else if (textComment) {
+        pendingComment = appendComment(pendingComment, textComment);
+      }
+      continue;
+    }
+
+    if (RESULT_TOKENS.includes(token as PgnResult)) {
+      current.result = token as PgnResult;
+      // The game is complete; anything after it belongs to the next one
+      current = null;
+      continue;
+    }
+
+    // Move numbers such as "12." or "12..." may be glued to the move
+    const annotated = token.replace(/^\d*\.+/, '');
+    const suffix = annotated.match(/[?!]+$/)?.[0];
+    const san = suffix ? annotated.slice(0, -suffix.length) : annotated;
+    if (san) {
+      inMovetext = true;
+      const move: PgnMove = { san };
+      if (suffix && SUFFIX_NAGS[suffix]) {
+        move.nags = [SUFFIX_NAGS[suffix]];
+      }
+      // Text before a variation's first move is kept with that move
+      if (pendingComment) {
+        move.comment = pendingComment;
+        pendingComment = undefined;
+      }
+      line.push(move);
+    }
+  }
+
+  games.forEach(game => {
+    if (game.headers.FEN) {
+      game.startFen = game.headers.FEN;
+    }
+    if (RESULT_TOKENS.includes(game.headers.Result as PgnResult) && game.result === '*') {
+      game.result = game.headers.Result as PgnResult;
+    }
+  });
+
+  return games.filter(game => game.moves.length > 0 || Object.keys(game.headers).length > 0);
+}
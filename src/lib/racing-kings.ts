@@ -0,0 +1,49 @@
+import { Chess, Move, PieceSymbol, Square } from 'chess.js';
+
+// Racing Kings on top of chess.js: no pawns, no checks, first king to the eighth rank wins
+
+export const RACING_KINGS_FEN = '8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1';
+
+// Moves that give check are illegal, and chess.js marks them in their SAN
+const givesCheck = (san: string) => /[+#]$/.test(san);
+
+/**
+ * A chess.js game that follows the Racing Kings rules: no move may give
+ * check, so kings are never in check and a side with no move left is
+ * stalemated. Reaching the eighth rank is judged by the game, not here.
+ */
+export class RacingKings extends Chess {
+  constructor(fen: string = RACING_KINGS_FEN) {
+    super(fen);
+  }
+
+  moves(): string[];
+  moves(options: { square?: Square; piece?: PieceSymbol; verbose?: false }): string[];
+  moves(options: { square?: Square; piece?: PieceSymbol; verbose: true }): Move[];
+  moves(options: { square?: Square; piece?: PieceSymbol; verbose?: boolean } = {}): string[] | Move[] {
+    const { square, piece, verbose } = options;
+    if (verbose) {
+      return super.moves({ square, piece, verbose: true }).filter(move => !givesCheck(move.san));
+    }
+    return super.moves({ square, piece }).filter(san => !givesCheck(san));
+  }
+
+  move(move: string | { from: string; to: string; promotion?: string | null }, options?: { strict?: boolean }): Move {
+    const played = super.move(move, options);
+    if (givesCheck(played.san)) {
+      this.undo();
+      throw new Error(`Invalid move: ${played.san} gives check, which Racing Kings forbids`);
+    }
+    return played;
+  }
+
+  isStalemate(): boolean {
+    // chess.js would count the checking moves as a way out
+    return !this.isCheck() && this.moves().length === 0;
+  }
+
+  isInsufficientMaterial(): boolean {
+    // A bare king can still win the race
+    return false;
+  }
+}
@@ -0,0 +1,47 @@
+// User preferences that persist across games
+export type MoveInputMode = 'click' | 'drag' | 'both';
+
+// What happens to the clock of the side to move while a live game's page is closed
+export type ReloadClockPolicy = 'pause' | 'run';
+
+export interface Settings {
+  moveInput: MoveInputMode;
+  // Take-backs happen immediately instead of asking the opponent
+  casualUndo: boolean;
+  // Show the evaluation bar while a game is being played, not just in analysis and review
+  liveEvalBar: boolean;
+  reloadClock: ReloadClockPolicy;
+}
+
+const SETTINGS_KEY = 'chessSettings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  moveInput: 'both',
+  casualUndo: false,
+  liveEvalBar: false,
+  reloadClock: 'pause'
+};
+
+/**
+ * Loads the stored settings, falling back to defaults for missing values
+ * @returns The user's settings
+ */
+export function loadSettings(): Settings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) {
+      return DEFAULT_SETTINGS;
+    }
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Persists the settings to localStorage
+ * @param settings The settings to store
+ */
+export function saveSettings(settings: Settings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
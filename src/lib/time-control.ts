@@ -0,0 +1,176 @@
+// Types describing how much time each player gets and how it is replenished
+export type TimingMethod = 'fischer' | 'simple-delay' | 'bronstein';
+
+export interface TimeControlStage {
+  /** Moves each player must make in this stage; omitted for the final stage */
+  moves?: number;
+  /** Time added to the clock when the stage begins, in seconds */
+  baseSeconds: number;
+  /** Increment (Fischer) or delay (simple/Bronstein) per move, in seconds */
+  bonusSeconds: number;
+}
+
+export interface TimeControl {
+  method: TimingMethod;
+  stages: TimeControlStage[];
+}
+
+export interface TimeControlPreset {
+  id: string;
+  label: string;
+  category: 'Bullet' | 'Blitz' | 'Rapid' | 'Classical';
+  timeControl: TimeControl;
+}
+
+const simple = (minutes: number, increment = 0): TimeControl => ({
+  method: 'fischer',
+  stages: [{ baseSeconds: minutes * 60, bonusSeconds: increment }]
+});
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: '1+0', label: '1+0', category: 'Bullet', timeControl: simple(1) },
+  { id: '2+1', label: '2+1', category: 'Bullet', timeControl: simple(2, 1) },
+  { id: '3+2', label: '3+2', category: 'Blitz', timeControl: simple(3, 2) },
+  { id: '5+0', label: '5+0', category: 'Blitz', timeControl: simple(5) },
+  { id: '5d3', label: '5 min, 3s delay', category: 'Blitz', timeControl: {
+    method: 'simple-delay',
+    stages: [{ baseSeconds: 5 * 60, bonusSeconds: 3 }]
+  } },
+  { id: '10+0', label: '10+0', category: 'Rapid', timeControl: simple(10) },
+  { id: '15+10', label: '15+10', category: 'Rapid', timeControl: simple(15, 10) },
+  { id: '25b10', label: '25 min, 10s Bronstein', category: 'Rapid', timeControl: {
+    method: 'bronstein',
+    stages: [{ baseSeconds: 25 * 60, bonusSeconds: 10 }]
+  } },
+  { id: '40/90+30', label: '40/90, then 30+30', category: 'Classical', timeControl: {
+    method: 'fischer',
+    stages: [
+      { moves: 40, baseSeconds: 90 * 60, bonusSeconds: 30 },
+      { baseSeconds: 30 * 60, bonusSeconds: 30 }
+    ]
+  } }
+];
+
+export const DEFAULT_TIME_CONTROL = TIME_CONTROL_PRESETS.find(preset => preset.id === '10+0').timeControl;
+
+/**
+ * Finds the stage a player is in while making a given move
+ * @param timeControl The time control in use
+ * @param moveNumber The player's move number, starting at 1
+ * @returns The index of the active stage
+ */
+export function stageIndexForMove(timeControl: TimeControl, moveNumber: number): number {
+  let movesSoFar = 0;
+  for (let i = 0; i < timeControl.stages.length; i++) {
+    const stage = timeControl.stages[i];
+    if (stage.moves === undefined || moveNumber <= movesSoFar + stage.moves) {
+      return i;
+    }
+    movesSoFar += stage.moves;
+  }
+  // Every stage has a move quota, so the last one repeats
+  return timeControl.stages.length - 1;
+}
+
+/**
+ * Gets the time each player starts the game with
+ * @param timeControl The time control in use
+ * @returns Starting time in milliseconds
+ */
+export function initialTime(timeControl: TimeControl): number {
+  return timeControl.stages[0].baseSeconds * 1000;
+}
+
+/**
+ * Computes how much clock time a turn consumes, given the real time spent on it.
+ * Under simple delay the clock does not start running until the delay expires.
+ * @param timeControl The time control in use
+ * @param moveNumber The player's move number, starting at 1
+ * @param elapsed Real time spent on the turn, in milliseconds
+ * @returns The amount to deduct from the player's clock, in milliseconds
+ */
+export function chargeableTime(timeControl: TimeControl, moveNumber: number, elapsed: number): number {
+  if (timeControl.method !== 'simple-delay') {
+    return elapsed;
+  }
+  const { bonusSeconds } = timeControl.stages[stageIndexForMove(timeControl, moveNumber)];
+  return Math.max(0, elapsed - bonusSeconds * 1000);
+}
+
+/**
+ * Computes the time credited to a player after completing a move: the
+ * increment or Bronstein delay, plus the base time of the next stage when
+ * the move completes a stage's quota.
+ * @param timeControl The time control in use
+ * @param moveNumber The move just completed, starting at 1
+ * @param elapsed Real time spent on the move, in milliseconds
+ * @returns The amount to add to the player's clock, in milliseconds
+ */
+export function timeCreditAfterMove(timeControl: TimeControl, moveNumber: number, elapsed: number): number {
+  const stageIndex = stageIndexForMove(timeControl, moveNumber);
+  const { bonusSeconds } = timeControl.stages[stageIndex];
+
+  let credit = 0;
+  if (timeControl.method === 'fischer') {
+    credit += bonusSeconds * 1000;
+  } else if (timeControl.method === 'bronstein') {
+    credit += Math.min(elapsed, bonusSeconds * 1000);
+  }
+
+  if (isStageBoundary(timeControl, moveNumber)) {
+    const nextStage = timeControl.stages[stageIndexForMove(timeControl, moveNumber + 1)];
+    credit += nextStage.baseSeconds * 1000;
+  }
+
+  return credit;
+}
+
+// Whether the given move is the last one of a stage with a move quota
+function isStageBoundary(timeControl: TimeControl, moveNumber: number): boolean {
+  let movesSoFar = 0;
+  for (const stage of timeControl.stages) {
+    if (stage.moves === undefined) {
+      return false;
+    }
+    movesSoFar += stage.moves;
+    if (moveNumber === movesSoFar) {
+      return true;
+    }
+  }
+  // Repeating final stage
+  const last = timeControl.stages[timeControl.stages.length - 1];
+  return moveNumber > movesSoFar && (moveNumber - movesSoFar) % last.moves === 0;
+}
+
+/**
+ * Formats a time control for display, e.g. "3+2", "5 d3" or "40/90, 30+30"
+ * @param timeControl The time control to describe
+ * @returns Human readable description
+ */
+export function formatTimeControl(timeControl: TimeControl): string {
+  const suffix = timeControl.method === 'simple-delay' ? ' d' :
+    timeControl.method === 'bronstein' ? ' b' : '+';
+
+  return timeControl.stages.map(stage => {
+    const minutes = stage.baseSeconds / 60;
+    const base = stage.moves !== undefined ? `${stage.moves}/${minutes}` : `${minutes}`;
+    return stage.bonusSeconds > 0 ? `${base}${suffix}${stage.bonusSeconds}` : base;
+  }).join(', ');
+}
+
+/**
+ * Formats a time control for the PGN TimeControl tag, e.g. "180+2" or
+ * "40/5400+30:1800+30". PGN has no notation for delays, so they are written
+ * with a "d" (simple) or "b" (Bronstein) separator in place of "+".
+ * @param timeControl The time control to describe
+ * @returns TimeControl tag value
+ */
+export function toPgnTimeControl(timeControl: TimeControl): string {
+  const separator = timeControl.method === 'simple-delay' ? 'd' :
+    timeControl.method === 'bronstein' ? 'b' : '+';
+
+  return timeControl.stages.map(stage => {
+    const base = stage.moves !== undefined ? `${stage.moves}/${stage.baseSeconds}` : `${stage.baseSeconds}`;
+    return stage.bonusSeconds > 0 ? `${base}${separator}${stage.bonusSeconds}` : base;
+  }).join(':');
+}
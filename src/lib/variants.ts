@@ -0,0 +1,219 @@
+import { Chess, DEFAULT_POSITION, Square } from 'chess.js';
+import { Chess960, chess960Fen, withoutCastling } from '@/lib/chess960';
+import { RACING_KINGS_FEN, RacingKings } from '@/lib/racing-kings';
+import { GameResult, winResult } from '@/lib/game-result';
+import { canCheckmate } from '@/lib/draw-rules';
+
+// Rule sets a game can be played under
+export type GameVariant = 'standard' | 'chess960' | 'king-of-the-hill' | 'three-check' | 'racing-kings';
+
+export const VARIANT_NAMES: Record<GameVariant, string> = {
+  standard: 'Standard',
+  chess960: 'Chess960',
+  'king-of-the-hill': 'King of the Hill',
+  'three-check': 'Three-check',
+  'racing-kings': 'Racing Kings'
+};
+
+// One-line summaries of how a variant is won, shown when choosing it
+export const VARIANT_RULES: Partial<Record<GameVariant, string>> = {
+  'king-of-the-hill': 'Win by checkmate or by bringing your king to d4, e4, d5 or e5',
+  'three-check': 'Win by checkmate or by giving check three times',
+  'racing-kings': 'No pawns and no checks: the first king to reach the eighth rank wins'
+};
+
+// Values of the PGN Variant tag, for variants other than standard chess
+const PGN_VARIANT_NAMES: Partial<Record<GameVariant, string>> = {
+  chess960: 'Chess960',
+  'king-of-the-hill': 'King of the Hill',
+  'three-check': 'Three-check',
+  'racing-kings': 'Racing Kings'
+};
+
+// Variant tag values as other software writes them, lowercased with spaces and dashes removed
+const PGN_VARIANT_SPELLINGS: Record<string, GameVariant> = {
+  chess960: 'chess960',
+  // Fischerandom is the spelling some older software writes
+  fischerandom: 'chess960',
+  fischerrandom: 'chess960',
+  kingofthehill: 'king-of-the-hill',
+  koth: 'king-of-the-hill',
+  threecheck: 'three-check',
+  '3check': 'three-check',
+  racingkings: 'racing-kings'
+};
+
+// A king on one of these squares wins King of the Hill
+const HILL_SQUARES: Square[] = ['d4', 'e4', 'd5', 'e5'];
+
+export const THREE_CHECK_LIMIT = 3;
+
+type Side = 'white' | 'black';
+
+// A bare king can still reach the centre, so King of the Hill never runs out of material
+class KingOfTheHill extends Chess {
+  isInsufficientMaterial(): boolean {
+    return false;
+  }
+}
+
+// Any piece can give check, so Three-check runs out of material only with the kings alone
+class ThreeCheck extends Chess {
+  isInsufficientMaterial(): boolean {
+    return this.board().flat().filter(Boolean).length === 2;
+  }
+}
+
+/**
+ * Creates a game for a variant
+ * @param variant The rule set
+ * @param fen The position to start from; defaults to the variant's usual start
+ * @returns A chess.js game that plays by the variant's rules
+ */
+export function createPosition(variant: GameVariant = 'standard', fen?: string): Chess {
+  switch (variant) {
+    case 'chess960':
+      return new Chess960(fen);
+    case 'king-of-the-hill':
+      return new KingOfTheHill(fen);
+    case 'three-check':
+      return new ThreeCheck(fen);
+    case 'racing-kings':
+      return new RacingKings(fen);
+    default:
+      return new Chess(fen);
+  }
+}
+
+/**
+ * Prepares a position for the engine and other tools that only know standard chess
+ * @param variant The rule set
+ * @param fen The position
+ * @returns The FEN, without castling rights for Chess960 since they cannot be read as standard ones
+ */
+export function standardFen(variant: GameVariant | undefined, fen: string): string {
+  return variant === 'chess960' ? withoutCastling(fen) : fen;
+}
+
+/**
+ * Works out the starting position of a new game
+ * @param variant The rule set
+ * @param chess960Position Chess960 position number, from 0 to 959
+ * @returns The FEN to start from
+ */
+export function variantStartFen(variant: GameVariant, chess960Position: number): string {
+  switch (variant) {
+    case 'chess960':
+      return chess960Fen(chess960Position);
+    case 'racing-kings':
+      return RACING_KINGS_FEN;
+    default:
+      return DEFAULT_POSITION;
+  }
+}
+
+/**
+ * Gives the PGN Variant tag for a variant
+ * @param variant The rule set
+ * @returns The tag value, or undefined for standard chess
+ */
+export function pgnVariantName(variant: GameVariant): string | undefined {
+  return PGN_VARIANT_NAMES[variant];
+}
+
+/**
+ * Reads the variant of an imported game from its PGN tags
+ * @param headers The game's tag pairs
+ * @returns The variant, standard if the tag is missing or unknown
+ */
+export function variantFromPgn(headers: Record<string, string>): GameVariant {
+  const name = headers.Variant?.toLowerCase().replace(/[\s-]+/g, '');
+  return (name && PGN_VARIANT_SPELLINGS[name]) || 'standard';
+}
+
+/**
+ * Counts the checks each side has given, for Three-check
+ * @param moves The moves played, each with the position after it
+ * @returns Checks given by White and by Black
+ */
+export function checksGiven(moves: { san: string; fen: string }[]): Record<Side, number> {
+  const counts: Record<Side, number> = { white: 0, black: 0 };
+  for (const move of moves) {
+    if (/[+#]$/.test(move.san)) {
+      // The side to move after a check is the one that received it
+      counts[move.fen.split(' ')[1] === 'w' ? 'black' : 'white']++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Decides a game by its variant's own goal, which is checked before checkmate
+ * and the draw rules: a king on a centre square in King of the Hill, a third
+ * check in Three-check, or a king on the eighth rank in Racing Kings
+ * @param variant The rule set
+ * @param game The position after the last move
+ * @param moves Every move played, the last one included
+ * @param names Player names by colour, for the message
+ * @returns The result, or null if the variant's goal has not been reached
+ */
+export function variantResult(
+  variant: GameVariant | undefined,
+  game: Chess,
+  moves: { san: string; fen: string }[],
+  names: Record<Side, string>
+): GameResult | null {
+  const mover: Side = game.turn() === 'w' ? 'black' : 'white';
+  const kingOn = (color: Side) => game.findPiece({ type: 'k', color: color === 'white' ? 'w' : 'b' })[0];
+
+  switch (variant) {
+    case 'king-of-the-hill':
+      return HILL_SQUARES.includes(kingOn(mover))
+        ? winResult(mover, 'king-of-the-hill', `${names[mover]}'s king reaches the centre. ${names[mover]} wins!`)
+        : null;
+
+    case 'three-check':
+      return checksGiven(moves)[mover] >= THREE_CHECK_LIMIT
+        ? winResult(mover, 'three-check', `Third check! ${names[mover]} wins!`)
+        : null;
+
+    case 'racing-kings': {
+      const home = (color: Side) => kingOn(color)?.[1] === '8';
+      if (home('white') && home('black')) {
+        return { result: '1/2-1/2', termination: 'racing-kings', message: 'Both kings reach the eighth rank. Draw!' };
+      }
+      if (home('black')) {
+        return winResult('black', 'racing-kings', `${names.black} reaches the eighth rank first and wins!`);
+      }
+      // Black moves second, so gets one move to draw level before White's arrival counts
+      const blackCanDrawLevel = game.turn() === 'b' &&
+        game.moves({ verbose: true }).some(move => move.piece === 'k' && move.to[1] === '8');
+      if (home('white') && !blackCanDrawLevel) {
+        return winResult('white', 'racing-kings', `${names.white} reaches the eighth rank first and wins!`);
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a side could still win if its opponent's flag fell
+ * @param variant The rule set
+ * @param game The current position
+ * @param color The side with time left
+ * @returns True unless the variant's goal is out of that side's reach
+ */
+export function canStillWin(variant: GameVariant | undefined, game: Chess, color: 'w' | 'b'): boolean {
+  // A king alone can always walk to the centre or the eighth rank
+  if (variant === 'king-of-the-hill' || variant === 'racing-kings') {
+    return true;
+  }
+  // Any piece besides the king can give check
+  if (variant === 'three-check') {
+    return game.board().flat().some(piece => piece && piece.color === color && piece.type !== 'k');
+  }
+  return canCheckmate(game, color);
+}
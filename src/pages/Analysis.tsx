@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Home,
+  RotateCcw,
+  FileText,
+  ChevronsLeft,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsRight,
+  LayoutGrid,
+  AlertTriangle
+} from 'lucide-react';
+import ChessBoard from '@/components/ChessBoard';
+import MoveTreeView from '@/components/MoveTreeView';
+import EngineAnalysis from '@/components/EngineAnalysis';
+import EvalBar from '@/components/EvalBar';
+import { PromotionPiece } from '@/components/PromotionDialog';
+import { useEngine } from '@/hooks/use-engine';
+import { useSettings } from '@/hooks/use-settings';
+import { PgnResult, parsePgn, writePgn } from '@/lib/pgn';
+import {
+  MoveTree,
+  TreePath,
+  createMoveTree,
+  nodesAlongPath,
+  childrenAt,
+  lineEndPath,
+  addMove,
+  promoteToMainline,
+  deleteNode,
+  annotateNode,
+  moveTreeFromPgn,
+  moveTreeToPgn
+} from '@/lib/move-tree';
+import { createPosition, standardFen } from '@/lib/variants';
+import { FenError, parseFen, validatePosition, writeFen } from '@/lib/chess-validator';
+import { UciInfo } from '@/lib/engine/uci';
+import { whiteScore } from '@/lib/engine/evaluation';
+
+// Positions can be handed over from other pages through router state
+export interface AnalysisLocationState {
+  fen?: string;
+  pgn?: string;
+}
+
+const Analysis = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { settings } = useSettings();
+  const [tree, setTree] = useState<MoveTree>(() => createMoveTree());
+  const [path, setPath] = useState<TreePath>([]);
+  // Tags and result of a loaded game, kept for copying it back out
+  const [source, setSource] = useState<{ headers: Record<string, string>; result: PgnResult }>({ headers: {}, result: '*' });
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [fenInput, setFenInput] = useState('');
+  const [fenErrors, setFenErrors] = useState<FenError[]>([]);
+  const [pgnInput, setPgnInput] = useState('');
+  const [engineEnabled, setEngineEnabled] = useState(true);
+  const [lineCount, setLineCount] = useState(3);
+  const [engineLines, setEngineLines] = useState<UciInfo[]>([]);
+  const { findMove, stop } = useEngine();
+
+  const loadFen = useCallback((fen: string) => {
+    const parsed = parseFen(fen);
+    const errors = parsed.position ? validatePosition(parsed.position) : parsed.errors;
+    setFenErrors(errors);
+    if (errors.length > 0) {
+      return;
+    }
+    // Written back out so FENs without move counters load too
+    setTree(createMoveTree(writeFen(parsed.position)));
+    setPath([]);
+    setSource({ headers: {}, result: '*' });
+    setIsFlipped(parsed.position.turn === 'b');
+  }, []);
+
+  const loadPgn = useCallback((text: string) => {
+    const [game] = parsePgn(text);
+    if (!game) {
+      toast.error('No game found in PGN');
+      return;
+    }
+    try {
+      const loaded = moveTreeFromPgn(game);
+      setTree(loaded);
+      setPath(lineEndPath(loaded));
+      setSource({ headers: game.headers, result: game.result });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not load game');
+    }
+  }, []);
+
+  useEffect(() => {
+    const state = location.state as AnalysisLocationState | null;
+    if (state?.pgn) {
+      loadPgn(state.pgn);
+    } else if (state?.fen) {
+      loadFen(state.fen);
+    }
+  }, [location.state, loadPgn, loadFen]);
+
+  const nodes = nodesAlongPath(tree, path);
+  const fen = nodes.length > 0 ? nodes[nodes.length - 1].fen : tree.startFen;
+  const game = useMemo(() => createPosition(tree.variant, fen), [tree.variant, fen]);
+  // The engine plays standard chess, so Chess960 positions reach it without castling rights or moves
+  const chess960 = tree.variant === 'chess960';
+  const engineFen = standardFen(tree.variant, fen);
+  const startFen = tree.startFen;
+
+  // Playing a move follows the tree if the move is already there, otherwise adds a variation
+  const handleMove = useCallback((from: string, to: string, promotion?: PromotionPiece) => {
+    const played = addMove(tree, path, { from, to, promotion });
+    if (!played) return false;
+
+    setTree(played.tree);
+    setPath(played.path);
+    return true;
+  }, [tree, path]);
+
+  const handleDelete = (target: TreePath) => {
+    setTree(deleteNode(tree, target));
+    setPath(target.slice(0, -1));
+  };
+
+  const handleCopyPgn = async () => {
+    try {
+      await navigator.clipboard.writeText(writePgn(moveTreeToPgn(tree, source.headers, source.result)));
+      toast.success('PGN copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy PGN:', error);
+      toast.error('Could not copy PGN');
+    }
+  };
+
+  // Analyse the shown position until it changes; editing comments leaves the moves alone
+  const moveKey = nodes.map(node => node.uci).join(' ');
+  const uciMoves = useMemo(() => (moveKey ? moveKey.split(' ') : []), [moveKey]);
+  useEffect(() => {
+    setEngineLines([]);
+    if (!engineEnabled || game.isGameOver()) return;
+
+    findMove({
+      fen: chess960 ? engineFen : startFen,
+      moves: chess960 ? [] : uciMoves,
+      params: { infinite: true },
+      options: { MultiPV: lineCount },
+      onInfo: (info) => {
+        if (!info.pv || !info.score) return;
+        const index = (info.multipv ?? 1) - 1;
+        setEngineLines(prev => {
+          const next = [...prev];
+          next[index] = info;
+          return next.slice(0, lineCount);
+        });
+      }
+    });
+    return () => stop();
+  }, [startFen, engineFen, uciMoves, game, chess960, engineEnabled, lineCount, findMove, stop]);
+
+  const goBack = () => setPath(path.slice(0, -1));
+  const goForward = () => {
+    const [next] = childrenAt(tree, path);
+    if (next) setPath([...path, next.id]);
+  };
+
+  // Step through the current line with the arrow keys
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLTextAreaElement || event.target instanceof HTMLInputElement) {
+        return;
+      }
+      if (event.key === 'ArrowLeft') {
+        setPath(path.slice(0, -1));
+      } else if (event.key === 'ArrowRight') {
+        const [next] = childrenAt(tree, path);
+        if (next) setPath([...path, next.id]);
+      } else if (event.key === 'Home') {
+        setPath([]);
+      } else if (event.key === 'End') {
+        setPath(lineEndPath(tree, path));
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tree, path]);
+
+  const bestScore = engineLines[0]?.score;
+  const evaluation = bestScore ? whiteScore(bestScore, game.turn()) : null;
+
+  const navButtonClass = "bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200";
+  const gameOverMessage = game.isCheckmate()
+    ? 'Checkmate'
+    : game.isStalemate() ? 'Stalemate' : game.isDraw() ? 'Draw' : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            className={navButtonClass}
+          >
+            <Home className="w-4 h-4 mr-2" />
+            Home
+          </Button>
+          <h1 className="text-3xl font-bold text-white bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+            Analysis Board
+          </h1>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => navigate('/editor', { state: { fen: engineFen } })}
+              variant="outline"
+              className={navButtonClass}
+            >
+              <LayoutGrid className="w-4 h-4 mr-2" />
+              Edit position
+            </Button>
+            <Button
+              onClick={() => setIsFlipped(!isFlipped)}
+              variant="outline"
+              className={navButtonClass}
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-4">
+            <EngineAnalysis
+              fen={engineFen}
+              lines={engineLines}
+              enabled={engineEnabled}
+              onEnabledChange={setEngineEnabled}
+              lineCount={lineCount}
+              onLineCountChange={setLineCount}
+            />
+
+            <MoveTreeView
+              tree={tree}
+              path={path}
+              onSelect={setPath}
+              onPromote={(target) => setTree(promoteToMainline(tree, target))}
+              onDelete={handleDelete}
+              onAnnotate={(target, changes) => setTree(annotateNode(tree, target, changes))}
+              onCopyPgn={handleCopyPgn}
+            />
+
+            <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl space-y-3">
+              <Label htmlFor="fenInput" className="text-gray-200 font-medium">FEN</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="fenInput"
+                  value={fenInput}
+                  onChange={(e) => {
+                    setFenInput(e.target.value);
+                    setFenErrors([]);
+                  }}
+                  placeholder={fen}
+                  className="bg-gray-800/50 border-gray-600 text-white placeholder:text-gray-500 font-mono text-xs"
+                />
+                <Button
+                  onClick={() => loadFen(fenInput)}
+                  disabled={!fenInput.trim()}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  Load
+                </Button>
+              </div>
+              {fenErrors.length > 0 && (
+                <ul className="space-y-1">
+                  {fenErrors.map(error => (
+                    <li key={error.message} className="text-red-300 text-xs flex items-start gap-2">
+                      <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                      {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Label htmlFor="pgnInput" className="text-gray-200 font-medium flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                PGN
+              </Label>
+              <Textarea
+                id="pgnInput"
+                value={pgnInput}
+                onChange={(e) => setPgnInput(e.target.value)}
+                placeholder="Paste a game in PGN format"
+                className="h-24 bg-gray-800/50 border-gray-600 text-white placeholder:text-gray-500 font-mono text-xs"
+              />
+              <Button
+                onClick={() => loadPgn(pgnInput)}
+                disabled={!pgnInput.trim()}
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                Load PGN
+              </Button>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-4">
+            <div className="bg-gray-800/30 p-6 rounded-xl backdrop-blur-lg border border-gray-700 shadow-2xl flex gap-3">
+              {engineEnabled && <EvalBar score={evaluation} isFlipped={isFlipped} />}
+              <div className="flex-1 min-w-0">
+                <ChessBoard
+                  game={game}
+                  onMove={handleMove}
+                  isFlipped={isFlipped}
+                  canMove={!gameOverMessage}
+                  currentPlayerColor={game.turn() === 'w' ? 'white' : 'black'}
+                  moveInput={settings.moveInput}
+                />
+              </div>
+            </div>
+
+            {gameOverMessage && (
+              <p className="text-center text-gray-300 text-sm">{gameOverMessage}</p>
+            )}
+
+            <div className="flex items-center justify-center gap-2">
+              <Button variant="outline" className={navButtonClass} onClick={() => setPath([])}>
+                <ChevronsLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" className={navButtonClass} onClick={goBack}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" className={navButtonClass} onClick={goForward}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" className={navButtonClass} onClick={() => setPath(lineEndPath(tree, path))}>
+                <ChevronsRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Analysis;
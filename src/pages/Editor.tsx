@@ -0,0 +1,393 @@
+import React, { useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Square } from 'chess.js';
+import { Chessboard, ChessboardDnDProvider, SparePiece } from 'react-chessboard';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AlertTriangle, Copy, Eraser, Home, Microscope, Play, RotateCcw, Trash2, LayoutGrid } from 'lucide-react';
+import {
+  CastlingRights,
+  FenError,
+  PieceColor,
+  PieceType,
+  Position,
+  algebraicToPosition,
+  emptyPosition,
+  enPassantSquares,
+  parseFen,
+  placePiece,
+  pieceAt,
+  positionToAlgebraic,
+  possibleCastling,
+  removePiece,
+  standardPosition,
+  validatePosition,
+  writeFen
+} from '@/lib/chess-validator';
+
+// Positions can be handed over from other pages through router state
+export interface EditorLocationState {
+  fen?: string;
+}
+
+// Links the spare pieces to the board they are dropped on
+const EDITOR_BOARD_ID = 'editor';
+const PALETTE_TYPES: PieceType[] = ['k', 'q', 'r', 'b', 'n', 'p'];
+
+const CASTLING_OPTIONS: { key: keyof CastlingRights; label: string }[] = [
+  { key: 'whiteKingside', label: 'White O-O' },
+  { key: 'whiteQueenside', label: 'White O-O-O' },
+  { key: 'blackKingside', label: 'Black O-O' },
+  { key: 'blackQueenside', label: 'Black O-O-O' }
+];
+
+// Piece codes as react-chessboard names them, e.g. "wK"
+type PieceCode = `${PieceColor}${Uppercase<PieceType>}`;
+
+const pieceCode = (color: PieceColor, type: PieceType) => `${color}${type.toUpperCase()}` as PieceCode;
+const pieceFromCode = (code: string) => ({ color: code[0] as PieceColor, type: code[1].toLowerCase() as PieceType });
+
+const Editor = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [setup, setSetup] = useState<Position>(() => {
+    const fen = (location.state as EditorLocationState | null)?.fen;
+    const parsed = fen ? parseFen(fen) : null;
+    return parsed?.position ?? standardPosition();
+  });
+  // Palette choice placed by clicking a square: a piece code, the eraser, or nothing
+  const [selected, setSelected] = useState<PieceCode | 'erase' | null>(null);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [fenInput, setFenInput] = useState('');
+  // Why the last FEN could not be loaded, or what had to be dropped from it
+  const [loadErrors, setLoadErrors] = useState<FenError[]>([]);
+
+  // Castling and en passant only count when the pieces allow them
+  const allowedCastling = useMemo(() => possibleCastling(setup.pieces), [setup.pieces]);
+  const enPassantOptions = useMemo(() => enPassantSquares(setup.pieces, setup.turn), [setup.pieces, setup.turn]);
+  const position = useMemo<Position>(() => ({
+    ...setup,
+    castling: {
+      whiteKingside: setup.castling.whiteKingside && allowedCastling.whiteKingside,
+      whiteQueenside: setup.castling.whiteQueenside && allowedCastling.whiteQueenside,
+      blackKingside: setup.castling.blackKingside && allowedCastling.blackKingside,
+      blackQueenside: setup.castling.blackQueenside && allowedCastling.blackQueenside
+    },
+    enPassant: enPassantOptions.find(square =>
+      setup.enPassant && square.x === setup.enPassant.x && square.y === setup.enPassant.y) ?? null
+  }), [setup, allowedCastling, enPassantOptions]);
+
+  const fen = writeFen(position);
+  const errors = validatePosition(position);
+  const enPassantValue = position.enPassant ? positionToAlgebraic(position.enPassant) ?? 'none' : 'none';
+
+  const updatePieces = (update: (pieces: Position['pieces']) => Position['pieces']) => {
+    setSetup(prev => ({ ...prev, pieces: update(prev.pieces) }));
+  };
+
+  const handleSparePieceDrop = (code: string, square: Square) => {
+    const target = algebraicToPosition(square);
+    if (!target) return false;
+    updatePieces(pieces => placePiece(pieces, { ...pieceFromCode(code), position: target }));
+    return true;
+  };
+
+  const handlePieceDrop = (sourceSquare: Square, targetSquare: Square) => {
+    const source = algebraicToPosition(sourceSquare);
+    const target = algebraicToPosition(targetSquare);
+    if (!source || !target) return false;
+    updatePieces(pieces => {
+      const piece = pieceAt(pieces, source);
+      return piece ? placePiece(removePiece(pieces, source), { ...piece, position: target }) : pieces;
+    });
+    return true;
+  };
+
+  const handlePieceDropOffBoard = (sourceSquare: Square) => {
+    const source = algebraicToPosition(sourceSquare);
+    if (source) updatePieces(pieces => removePiece(pieces, source));
+  };
+
+  // Clicking places the chosen piece; clicking the same piece again clears the square
+  const handleSquareClick = (square: Square) => {
+    const target = algebraicToPosition(square);
+    if (!target || !selected) return;
+    updatePieces(pieces => {
+      const current = pieceAt(pieces, target);
+      if (selected === 'erase' || (current && pieceCode(current.color, current.type) === selected)) {
+        return removePiece(pieces, target);
+      }
+      return placePiece(pieces, { ...pieceFromCode(selected), position: target });
+    });
+  };
+
+  const handleLoadFen = () => {
+    const parsed = parseFen(fenInput);
+    if (!parsed.position) {
+      setLoadErrors(parsed.errors);
+      return;
+    }
+    // Rights the pieces do not allow are dropped, so say which
+    setLoadErrors(validatePosition(parsed.position)
+      .filter(error => error.code === 'castling' || error.code === 'en-passant'));
+    setSetup(parsed.position);
+    setFenInput('');
+  };
+
+  const handleCopyFen = async () => {
+    try {
+      await navigator.clipboard.writeText(fen);
+      toast.success('FEN copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy FEN:', error);
+      toast.error('Could not copy FEN');
+    }
+  };
+
+  const navButtonClass = "bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200";
+  const inputClass = "bg-gray-800/50 border-gray-600 text-white placeholder:text-gray-500";
+
+  const renderPalette = (color: PieceColor) => (
+    <div className="flex flex-wrap items-center justify-center gap-1">
+      {PALETTE_TYPES.map(type => {
+        const code = pieceCode(color, type);
+        return (
+          <button
+            key={code}
+            type="button"
+            onClick={() => setSelected(selected === code ? null : code)}
+            aria-label={`Place ${code}`}
+            aria-pressed={selected === code}
+            className={`rounded-md p-1 transition-colors duration-150 ${
+              selected === code ? 'bg-blue-600/60' : 'hover:bg-gray-700/70'
+            }`}
+          >
+            <SparePiece piece={code} width={44} dndId={EDITOR_BOARD_ID} />
+          </button>
+        );
+      })}
+      {color === 'w' && (
+        <button
+          type="button"
+          onClick={() => setSelected(selected === 'erase' ? null : 'erase')}
+          aria-label="Erase pieces"
+          aria-pressed={selected === 'erase'}
+          className={`rounded-md p-3 text-gray-200 transition-colors duration-150 ${
+            selected === 'erase' ? 'bg-blue-600/60' : 'hover:bg-gray-700/70'
+          }`}
+        >
+          <Eraser className="w-6 h-6" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            className={navButtonClass}
+          >
+            <Home className="w-4 h-4 mr-2" />
+            Home
+          </Button>
+          <h1 className="text-3xl font-bold text-white bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+            Board Editor
+          </h1>
+          <Button
+            onClick={() => setIsFlipped(!isFlipped)}
+            variant="outline"
+            className={navButtonClass}
+          >
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-4">
+            <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl space-y-4">
+              <div className="space-y-2">
+                <Label className="text-gray-200 font-medium">Side to move</Label>
+                <ToggleGroup
+                  type="single"
+                  value={setup.turn}
+                  onValueChange={(value) => value && setSetup(prev => ({ ...prev, turn: value as PieceColor }))}
+                  className="grid grid-cols-2"
+                >
+                  <ToggleGroupItem value="w" className="text-gray-300 data-[state=on]:bg-gray-700 data-[state=on]:text-white">
+                    White
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="b" className="text-gray-300 data-[state=on]:bg-gray-700 data-[state=on]:text-white">
+                    Black
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-gray-200 font-medium">Castling rights</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {CASTLING_OPTIONS.map(({ key, label }) => (
+                    <div key={key} className="flex items-center gap-2">
+                      <Checkbox
+                        id={key}
+                        checked={position.castling[key]}
+                        disabled={!allowedCastling[key]}
+                        onCheckedChange={(checked) => setSetup(prev => ({
+                          ...prev,
+                          castling: { ...prev.castling, [key]: checked === true }
+                        }))}
+                        className="border-gray-500"
+                      />
+                      <Label htmlFor={key} className="text-gray-300 text-sm">{label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-gray-200 font-medium">En passant square</Label>
+                <Select
+                  value={enPassantValue}
+                  onValueChange={(value) => setSetup(prev => ({
+                    ...prev,
+                    enPassant: value === 'none' ? null : algebraicToPosition(value)
+                  }))}
+                  disabled={enPassantOptions.length === 0}
+                >
+                  <SelectTrigger className="bg-gray-800/50 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {enPassantOptions.map(square => {
+                      const name = positionToAlgebraic(square) ?? '';
+                      return <SelectItem key={name} value={name}>{name}</SelectItem>;
+                    })}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" className={navButtonClass} onClick={() => setSetup(emptyPosition())}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Clear
+                </Button>
+                <Button variant="outline" className={navButtonClass} onClick={() => setSetup(standardPosition())}>
+                  <LayoutGrid className="w-4 h-4 mr-2" />
+                  Standard
+                </Button>
+              </div>
+            </Card>
+
+            <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl space-y-3">
+              <Label htmlFor="editorFen" className="text-gray-200 font-medium">FEN</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="editorFen"
+                  value={fenInput}
+                  onChange={(e) => {
+                    setFenInput(e.target.value);
+                    setLoadErrors([]);
+                  }}
+                  onKeyDown={(e) => e.key === 'Enter' && fenInput.trim() && handleLoadFen()}
+                  placeholder={fen}
+                  className={`${inputClass} font-mono text-xs`}
+                />
+                <Button
+                  onClick={handleLoadFen}
+                  disabled={!fenInput.trim()}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  Load
+                </Button>
+              </div>
+              {loadErrors.length > 0 && (
+                <ul className="space-y-1">
+                  {loadErrors.map(error => (
+                    <li key={error.message} className="text-red-300 text-xs flex items-start gap-2">
+                      <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                      {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button variant="outline" className={`w-full ${navButtonClass}`} onClick={handleCopyFen}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy FEN
+              </Button>
+            </Card>
+
+            {errors.length > 0 && (
+              <Card className="backdrop-blur-lg bg-red-950/40 border-red-800 p-4 shadow-xl">
+                <ul className="space-y-1">
+                  {errors.map(error => (
+                    <li key={error.message} className="text-red-200 text-sm flex items-start gap-2">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      {error.message}
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                onClick={() => navigate('/', { state: { fen } })}
+                disabled={errors.length > 0}
+                className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white"
+              >
+                <Play className="w-4 h-4 mr-2" />
+                Play from here
+              </Button>
+              <Button
+                onClick={() => navigate('/analysis', { state: { fen } })}
+                disabled={errors.length > 0}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                <Microscope className="w-4 h-4 mr-2" />
+                Analyse
+              </Button>
+            </div>
+          </div>
+
+          <div className="lg:col-span-2">
+            <ChessboardDnDProvider>
+              <div className="bg-gray-800/30 p-6 rounded-xl backdrop-blur-lg border border-gray-700 shadow-2xl space-y-3">
+                {renderPalette(isFlipped ? 'w' : 'b')}
+                <Chessboard
+                  id={EDITOR_BOARD_ID}
+                  position={fen}
+                  boardOrientation={isFlipped ? 'black' : 'white'}
+                  onSparePieceDrop={handleSparePieceDrop}
+                  onPieceDrop={handlePieceDrop}
+                  onPieceDropOffBoard={handlePieceDropOffBoard}
+                  dropOffBoardAction="trash"
+                  onSquareClick={handleSquareClick}
+                  customBoardStyle={{
+                    borderRadius: '12px',
+                    boxShadow: '0 25px 50px -12px rgb(0 0 0 / 0.8)',
+                  }}
+                  customDarkSquareStyle={{ backgroundColor: '#374151' }}
+                  customLightSquareStyle={{ backgroundColor: '#f3f4f6' }}
+                  animationDuration={0}
+                />
+                {renderPalette(isFlipped ? 'b' : 'w')}
+              </div>
+            </ChessboardDnDProvider>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Editor;
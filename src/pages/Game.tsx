@@ -1,123 +1,291 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Chess } from 'chess.js';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Crown } from 'lucide-react';
+import { Crown, Download, Copy, Microscope, GraduationCap, Play, Lock } from 'lucide-react';
 import { toast } from 'sonner';
 import ChessBoard from '@/components/ChessBoard';
 import GameControls from '@/components/GameControls';
 import PlayerInfo from '@/components/PlayerInfo';
+import MoveList from '@/components/MoveList';
+import OfferDialog from '@/components/OfferDialog';
+import AdjournDialog from '@/components/AdjournDialog';
+import EvalBar from '@/components/EvalBar';
+import GameReview from '@/components/GameReview';
+import { PromotionPiece } from '@/components/PromotionDialog';
+import { useSettings } from '@/hooks/use-settings';
+import { useClockTick } from '@/hooks/use-clock-tick';
+import { useEngine } from '@/hooks/use-engine';
+import { useEvaluation } from '@/hooks/use-evaluation';
+import { useGameReview } from '@/hooks/use-game-review';
+import { clockNow, remainingTime, timeAfterMove } from '@/lib/chess-clock';
+import { initialTime, stageIndexForMove } from '@/lib/time-control';
+import {
+  GameState,
+  Player,
+  SealedMove,
+  gameStateToPgn,
+  pgnFileName,
+  playersByColor,
+  positionHistory,
+  clearCheckpoint,
+  loadCheckpoint,
+  replayMoves,
+  resumedTurnElapsed,
+  saveCheckpoint
+} from '@/lib/game-state';
+import { DrawReason, automaticDraw, claimableDraws } from '@/lib/draw-rules';
+import {
+  GameResult,
+  abortedResult,
+  canAbort,
+  drawResult,
+  resultTitle,
+  timeoutDrawResult,
+  winResult
+} from '@/lib/game-result';
+import { archiveGame } from '@/lib/game-archive';
+import { adjournGame } from '@/lib/adjournment';
+import { moveToUci } from '@/lib/engine/search';
+import { scoreToCentipawns } from '@/lib/engine/uci';
+import { loadSettings } from '@/lib/settings';
+import { THREE_CHECK_LIMIT, canStillWin, checksGiven, createPosition, standardFen, variantResult } from '@/lib/variants';
+import { downloadTextFile } from '@/lib/utils';
 
-interface Player {
-  name: string;
-  color: 'white' | 'black';
-  timeLeft: number;
-}
-
-interface GameState {
-  playerA: Player;
-  playerB: Player;
-  currentTurn: 'white' | 'black';
-}
+// The computer accepts a draw offer once it judges itself this far behind, in centipawns
+const COMPUTER_DRAW_THRESHOLD = -200;
 
 const Game = () => {
   const navigate = useNavigate();
   const [game, setGame] = useState(new Chess());
   const [gameState, setGameState] = useState<GameState | null>(null);
-  const [gameOver, setGameOver] = useState<{
-    type: 'checkmate' | 'stalemate' | 'draw' | 'timeout';
-    winner?: string;
-    message: string;
-  } | null>(null);
   const [isFlipped, setIsFlipped] = useState(false);
+  // Ply being reviewed from the move list, or null when following the live game
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  const [takebackRequested, setTakebackRequested] = useState(false);
+  const [drawOffered, setDrawOffered] = useState(false);
+  // Set once the players choose to review the finished game
+  const [reviewing, setReviewing] = useState(false);
+  // When both clocks were stopped, on the monotonic clock, or null while they run
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [adjournDialogOpen, setAdjournDialogOpen] = useState(false);
+  // Set while the player on move chooses the move to seal
+  const [sealing, setSealing] = useState(false);
+  // Sealed move to play once a resumed adjournment has loaded
+  const sealedMoveRef = useRef<SealedMove | null>(null);
+  const { settings, updateSettings } = useSettings();
+  const gameOver = gameState?.result ?? null;
+  // Timestamps come from the monotonic clock; timeLeft is stored per turn
+  const [turnStartedAt, setTurnStartedAt] = useState(clockNow);
+  const paused = pausedAt !== null;
+  const tick = useClockTick(!!gameState && !gameOver && !paused);
+  // Clocks read as of the pause while the game is paused
+  const now = pausedAt ?? tick;
+  const { findMove, stop: stopEngine, thinking } = useEngine();
+  // Computer's evaluation of its last move, from its own point of view
+  const computerScoreRef = useRef<number | null>(null);
+
+  // Position shown on the board: the live game or a read-only earlier position
+  const moves = gameState?.moves;
+  const variant = gameState?.variant;
+  const startFen = gameState?.startFen ?? DEFAULT_POSITION;
+  const displayedGame = useMemo(() => {
+    if (viewPly === null || !moves) return game;
+    return createPosition(variant, viewPly < 0 ? startFen : moves[viewPly].fen);
+  }, [viewPly, game, moves, variant, startFen]);
+  // Checks each side has given, shown beside the players in Three-check
+  const checks = useMemo(() => (variant === 'three-check' && moves ? checksGiven(moves) : null), [variant, moves]);
+
+  // Outside analysis and review the bar only shows if the players turned it on
+  const showEvalBar = !!gameState && (!!gameOver || settings.liveEvalBar);
+  const evaluation = useEvaluation(standardFen(variant, displayedGame.fen()), showEvalBar);
+
+  // The engine plays standard chess, so the review sees Chess960 positions without castling rights
+  const reviewMoves = useMemo(() => (moves ?? []).map(move => ({
+    san: move.san,
+    uci: moveToUci(move),
+    fen: standardFen(variant, move.fen)
+  })), [moves, variant]);
+  const reviewPositions = useMemo(
+    () => [standardFen(variant, startFen), ...reviewMoves.map(move => move.fen)],
+    [variant, startFen, reviewMoves]
+  );
+  const reviewSans = useMemo(() => reviewMoves.map(move => move.san), [reviewMoves]);
+  const { evaluations } = useGameReview(reviewPositions, reviewing && !!gameOver, variant, reviewSans);
 
+  // Resume the saved game, moves, clocks and open offers included
   useEffect(() => {
-    const storedState = sessionStorage.getItem('chessGameState');
-    if (!storedState) {
+    const checkpoint = loadCheckpoint();
+    if (!checkpoint) {
       navigate('/');
       return;
     }
-    
-    const state = JSON.parse(storedState);
+
+    const { state } = checkpoint;
     setGameState(state);
-    
+    setGame(replayMoves(state));
+    setTakebackRequested(checkpoint.takebackRequested);
+    setDrawOffered(checkpoint.drawOffered);
+    setTurnStartedAt(clockNow() - resumedTurnElapsed(checkpoint, loadSettings().reloadClock));
+    if (checkpoint.paused) {
+      setPausedAt(clockNow());
+    }
+    sealedMoveRef.current = checkpoint.sealedMove ?? null;
+
     if (state.playerA.color === 'black') {
       setIsFlipped(true);
     }
   }, [navigate]);
 
+  // Checkpoint every change, and the time spent on the turn when the page goes away.
+  // A finished game is in the archive, so its checkpoint is dropped
+  useEffect(() => {
+    if (!gameState) return;
+    if (gameState.result) {
+      clearCheckpoint();
+      return;
+    }
+
+    const save = () => saveCheckpoint({
+      state: gameState,
+      turnElapsed: Math.max(0, (pausedAt ?? clockNow()) - turnStartedAt),
+      takebackRequested,
+      drawOffered,
+      paused: pausedAt !== null
+    });
+    save();
+    window.addEventListener('pagehide', save);
+    return () => window.removeEventListener('pagehide', save);
+  }, [gameState, turnStartedAt, takebackRequested, drawOffered, pausedAt]);
+
+  // Keep the archive up to date from the first move on, so the game survives the tab
+  useEffect(() => {
+    if (!gameState || gameState.moves.length === 0) return;
+    archiveGame(gameState).catch(error => console.error('Failed to archive game:', error));
+  }, [gameState]);
+
+  const finishGame = useCallback((result: GameResult) => {
+    setGameState(prev => prev && !prev.result ? { ...prev, result } : prev);
+  }, []);
+
+  // Flag the side to move once their clock runs out
   useEffect(() => {
     if (!gameState || gameOver) return;
 
-    const interval = setInterval(() => {
-      setGameState(prev => {
-        if (!prev) return prev;
-        
-        const currentPlayer = prev.currentTurn === prev.playerA.color ? 'playerA' : 'playerB';
-        const newTimeLeft = prev[currentPlayer].timeLeft - 1;
-        
-        if (newTimeLeft <= 0) {
-          const winner = currentPlayer === 'playerA' ? prev.playerB.name : prev.playerA.name;
-          setGameOver({
-            type: 'timeout',
-            winner,
-            message: `${winner} wins by timeout!`
-          });
-          return prev;
-        }
-        
-        return {
-          ...prev,
-          [currentPlayer]: {
-            ...prev[currentPlayer],
-            timeLeft: newTimeLeft
-          }
-        };
+    const currentPlayer = gameState.currentTurn === gameState.playerA.color ? 'playerA' : 'playerB';
+    const player = gameState[currentPlayer];
+    const timeLeft = remainingTime(gameState.timeControl, player.timeLeft, player.movesMade + 1, turnStartedAt, now);
+
+    if (timeLeft <= 0) {
+      const winningPlayer = currentPlayer === 'playerA' ? gameState.playerB : gameState.playerA;
+      const winner = winningPlayer.name;
+      setGameState(prev => prev && {
+        ...prev,
+        [currentPlayer]: { ...prev[currentPlayer], timeLeft: 0 }
       });
-    }, 1000);
 
-    return () => clearInterval(interval);
-  }, [gameState, gameOver]);
+      // A flag only loses if the opponent could still have won
+      if (canStillWin(gameState.variant, game, winningPlayer.color === 'white' ? 'w' : 'b')) {
+        finishGame(winResult(winningPlayer.color, 'timeout', `${winner} wins on time!`));
+      } else {
+        const goal = gameState.variant === 'three-check' ? 'give check' : 'checkmate';
+        finishGame(timeoutDrawResult(
+          `${player.name} ran out of time, but ${winner} cannot ${goal}. Draw!`
+        ));
+      }
+    }
+  }, [now, game, gameState, gameOver, turnStartedAt, finishGame]);
+
+  const endInDraw = useCallback((reason: DrawReason) => {
+    const result = drawResult(reason);
+    finishGame(result);
+    toast.info(result.message);
+  }, [finishGame]);
+
+  const makeMove = useCallback((from: string, to: string, promotion?: PromotionPiece) => {
+    const movedAt = clockNow();
+    const elapsed = movedAt - turnStartedAt;
+
+    // A move made after the flag fell does not count
+    if (gameState) {
+      const mover = gameState.currentTurn === gameState.playerA.color ? gameState.playerA : gameState.playerB;
+      if (remainingTime(gameState.timeControl, mover.timeLeft, mover.movesMade + 1, turnStartedAt, movedAt) <= 0) {
+        return false;
+      }
+    }
 
-  const makeMove = useCallback((from: string, to: string) => {
     try {
       const move = game.move({
         from,
         to,
-        promotion: 'q'
+        promotion
       });
 
       if (move) {
-        const newGame = new Chess(game.fen());
+        // Clone by replaying so the move history survives the state update
+        const newGame = createPosition(variant, startFen);
+        gameState?.moves.forEach(played => newGame.move({ from: played.from, to: played.to, promotion: played.promotion }));
+        newGame.move({ from: move.from, to: move.to, promotion: move.promotion });
         setGame(newGame);
         
         setGameState(prev => {
           if (!prev) return prev;
+
+          // Charge exactly the time spent, then credit increment, delay or the next stage's time
+          const mover = prev.currentTurn === prev.playerA.color ? 'playerA' : 'playerB';
+          const moveNumber = prev[mover].movesMade + 1;
+          const timeLeft = timeAfterMove(prev.timeControl, prev[mover].timeLeft, moveNumber, elapsed);
+
           return {
             ...prev,
-            currentTurn: prev.currentTurn === 'white' ? 'black' : 'white'
+            [mover]: {
+              ...prev[mover],
+              timeLeft,
+              movesMade: moveNumber
+            },
+            currentTurn: prev.currentTurn === 'white' ? 'black' : 'white',
+            moves: [...prev.moves, {
+              san: move.san,
+              from: move.from,
+              to: move.to,
+              promotion: move.promotion,
+              fen: move.after,
+              clock: timeLeft,
+              at: Date.now()
+            }]
           };
         });
+        setTurnStartedAt(movedAt);
+
+        const fens = gameState ? [...positionHistory(gameState), move.after] : [move.after];
+        const drawReason = automaticDraw(newGame, fens);
+        const played = [...(gameState?.moves ?? []), { san: move.san, fen: move.after }];
+        // Variant goals end the game before checkmate and the draw rules are looked at
+        const goalResult = gameState && variantResult(variant, newGame, played, {
+          white: playersByColor(gameState).white.name,
+          black: playersByColor(gameState).black.name
+        });
 
-        if (newGame.isCheckmate()) {
+        if (goalResult) {
+          finishGame(goalResult);
+          if (goalResult.winner) {
+            toast.success(goalResult.message);
+          } else {
+            toast.info(goalResult.message);
+          }
+        } else if (newGame.isCheckmate()) {
           const winner = gameState?.currentTurn === gameState?.playerA.color ? 
             gameState.playerA.name : gameState?.playerB.name;
-          setGameOver({
-            type: 'checkmate',
-            winner,
-            message: `Checkmate! ${winner} wins!`
-          });
+          finishGame(winResult(gameState.currentTurn, 'checkmate', `Checkmate! ${winner} wins!`));
           toast.success(`Checkmate! ${winner} wins!`);
-        } else if (newGame.isDraw() || newGame.isStalemate()) {
-          setGameOver({
-            type: newGame.isStalemate() ? 'stalemate' : 'draw',
-            message: newGame.isStalemate() ? 'Stalemate - Draw!' : 'Draw!'
-          });
-          toast.info(newGame.isStalemate() ? 'Stalemate - Draw!' : 'Draw!');
+        } else if (drawReason) {
+          endInDraw(drawReason);
         } else if (newGame.isCheck()) {
-          toast.warning('Check!');
+          toast.warning(variant === 'three-check'
+            ? `Check! ${checksGiven(played)[gameState.currentTurn]} of ${THREE_CHECK_LIMIT}`
+            : 'Check!');
         }
 
         return true;
@@ -127,25 +295,226 @@ const Game = () => {
       toast.error('Invalid move');
     }
     return false;
-  }, [game, gameState]);
+  }, [game, gameState, variant, startFen, turnStartedAt, endInDraw, finishGame]);
+
+  // The computer plays through the same path as a move made on the board
+  const makeMoveRef = useRef(makeMove);
+  useEffect(() => {
+    makeMoveRef.current = makeMove;
+  }, [makeMove]);
+
+  // A game resumed from adjournment opens with its sealed move
+  useEffect(() => {
+    const sealed = sealedMoveRef.current;
+    if (!sealed || !gameState) return;
+    sealedMoveRef.current = null;
+
+    // A sealed move that no longer fits the position is reported, not played
+    let san: string;
+    try {
+      san = createPosition(variant, game.fen()).move(sealed).san;
+    } catch {
+      toast.error('The sealed move could not be played');
+      return;
+    }
+    if (makeMoveRef.current(sealed.from, sealed.to, sealed.promotion as PromotionPiece | undefined)) {
+      toast.info(`Sealed move played: ${san}`);
+    }
+  }, [game, gameState, variant]);
+
+  const computer = gameState?.computer;
+  const computerToMove = !!computer && !gameOver && !paused && gameState.currentTurn === computer.color;
+  const computerLevel = computer?.level;
+  // Primitive inputs so the search restarts only when the position changes. The engine plays
+  // standard chess, so it gets Chess960 games as the current position without castling rights
+  const chess960 = variant === 'chess960';
+  const engineStartFen = chess960 ? standardFen(variant, game.fen()) : startFen;
+  const enginePosition = computerToMove ? (chess960 ? '' : gameState.moves.map(moveToUci).join(' ')) : null;
+  // Racing Kings forbids giving check, so the engine only searches the moves the variant allows
+  const engineSearchMoves = computerToMove && variant === 'racing-kings'
+    ? game.moves({ verbose: true }).map(moveToUci).join(' ')
+    : '';
+  const whiteTime = gameState && playersByColor(gameState).white.timeLeft;
+  const blackTime = gameState && playersByColor(gameState).black.timeLeft;
+  const computerIncrement = computerToMove
+    ? gameState.timeControl.stages[stageIndexForMove(
+      gameState.timeControl,
+      playersByColor(gameState)[computer.color].movesMade + 1
+    )].bonusSeconds * 1000
+    : 0;
+
+  useEffect(() => {
+    if (enginePosition === null || computerLevel === undefined) return;
+
+    let cancelled = false;
+    findMove({
+      fen: engineStartFen,
+      moves: enginePosition ? enginePosition.split(' ') : [],
+      params: {
+        wtime: whiteTime,
+        btime: blackTime,
+        winc: computerIncrement,
+        binc: computerIncrement,
+        ...(engineSearchMoves && { searchmoves: engineSearchMoves.split(' ') })
+      },
+      options: { 'Skill Level': computerLevel },
+      onInfo: (info) => {
+        if (info.score) computerScoreRef.current = scoreToCentipawns(info.score);
+      }
+    }).then(response => {
+      if (cancelled || !response?.bestMove) return;
+      const { bestMove } = response;
+      makeMoveRef.current(bestMove.slice(0, 2), bestMove.slice(2, 4), bestMove[4] as PromotionPiece | undefined);
+    });
+
+    return () => {
+      cancelled = true;
+      stopEngine();
+    };
+  }, [engineStartFen, enginePosition, engineSearchMoves, computerLevel, whiteTime, blackTime, computerIncrement, findMove, stopEngine]);
 
   const handleResign = () => {
     if (!gameState) return;
     
-    const currentPlayer = gameState.currentTurn === gameState.playerA.color ? 
+    // Against the computer it is always the human who resigns
+    const humanColor = gameState.computer && (gameState.computer.color === 'white' ? 'black' : 'white');
+    const resigning = (humanColor ?? gameState.currentTurn) === gameState.playerA.color ?
       gameState.playerA : gameState.playerB;
-    const winner = gameState.currentTurn === gameState.playerA.color ? 
-      gameState.playerB.name : gameState.playerA.name;
+    const winner = resigning === gameState.playerA ? gameState.playerB.name : gameState.playerA.name;
     
-    setGameOver({
-      type: 'timeout',
-      winner,
-      message: `${currentPlayer.name} resigned. ${winner} wins!`
+    finishGame(winResult(
+      resigning.color === 'white' ? 'black' : 'white',
+      'resignation',
+      `${resigning.name} resigned. ${winner} wins!`
+    ));
+  };
+
+  const handleAbort = () => {
+    if (!gameState || !canAbort(gameState.moves.length)) return;
+    finishGame(abortedResult());
+  };
+
+  const handleDownloadPgn = () => {
+    if (!gameState) return;
+    downloadTextFile(pgnFileName(gameState), gameStateToPgn(gameState), 'application/x-chess-pgn');
+  };
+
+  const handleCopyPgn = async () => {
+    if (!gameState) return;
+    try {
+      await navigator.clipboard.writeText(gameStateToPgn(gameState));
+      toast.success('PGN copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy PGN:', error);
+      toast.error('Could not copy PGN');
+    }
+  };
+
+  // Undo the last moves and give their players back the time they had before them
+  const takeBack = (count = 1) => {
+    if (!gameState || gameState.moves.length < count) return;
+
+    const takenBack = gameState.moves.slice(-count).map(move => move.san);
+    setGame(replayMoves(gameState, gameState.moves.slice(0, -count)));
+
+    setGameState(prev => {
+      if (!prev) return prev;
+
+      let next = prev;
+      for (let i = 0; i < count; i++) {
+        // The side not on move made the last move
+        const mover = next.currentTurn === next.playerA.color ? 'playerB' : 'playerA';
+        const ply = next.moves.length - 1;
+        const previousClock = ply >= 2 ? next.moves[ply - 2].clock : initialTime(next.timeControl);
+
+        next = {
+          ...next,
+          [mover]: {
+            ...next[mover],
+            timeLeft: previousClock,
+            movesMade: next[mover].movesMade - 1
+          },
+          currentTurn: next[mover].color,
+          moves: next.moves.slice(0, -1),
+          takebacks: [...next.takebacks, { ply, san: next.moves[ply].san, at: Date.now() }]
+        };
+      }
+      return next;
     });
+    setTurnStartedAt(clockNow());
+    setViewPly(null);
+    toast.info(takenBack.length === 1
+      ? `${takenBack[0]} was taken back`
+      : `${takenBack.join(' and ')} were taken back`);
+  };
+
+  const handleTakeBack = () => {
+    if (gameState?.computer) {
+      // The computer never objects; undo back to the player's own turn
+      takeBack(computerToMove ? 1 : 2);
+    } else if (settings.casualUndo) {
+      takeBack();
+    } else {
+      setTakebackRequested(true);
+    }
+  };
+
+  const handleOfferDraw = () => {
+    if (!gameState?.computer) {
+      setDrawOffered(true);
+      return;
+    }
+
+    const score = computerScoreRef.current;
+    if (score !== null && score <= COMPUTER_DRAW_THRESHOLD) {
+      endInDraw('agreement');
+    } else {
+      toast.info('The computer declines the draw');
+    }
+  };
+
+  const handleClaimDraw = (reason: DrawReason) => {
+    if (!gameState || !claimableDraws(positionHistory(gameState)).includes(reason)) return;
+    endInDraw(reason);
+  };
+
+  const handleTogglePause = () => {
+    if (pausedAt === null) {
+      setPausedAt(clockNow());
+      return;
+    }
+    // The time spent paused is not charged to the side to move
+    setTurnStartedAt(prev => prev + clockNow() - pausedAt);
+    setPausedAt(null);
+  };
+
+  const handleAdjourn = (sealedMove?: SealedMove) => {
+    if (!gameState || gameOver) return;
+    adjournGame({
+      state: gameState,
+      turnElapsed: Math.max(0, (pausedAt ?? clockNow()) - turnStartedAt),
+      takebackRequested,
+      drawOffered
+    }, sealedMove);
+    clearCheckpoint();
+    toast.success(sealedMove ? 'Move sealed and game adjourned' : 'Game adjourned');
+    navigate('/');
+  };
+
+  // The sealed move is checked for legality but not shown on the board
+  const handleSealMove = (from: string, to: string, promotion?: PromotionPiece) => {
+    try {
+      createPosition(variant, game.fen()).move({ from, to, promotion });
+    } catch {
+      toast.error('Invalid move');
+      return false;
+    }
+    handleAdjourn({ from, to, promotion });
+    return true;
   };
 
   const handleNewGame = () => {
-    sessionStorage.removeItem('chessGameState');
+    clearCheckpoint();
     navigate('/');
   };
 
@@ -165,9 +534,24 @@ const Game = () => {
     </div>;
   }
 
+  // Live clock reading; only the side to move has time running
+  const withLiveClock = (player: Player): Player => {
+    if (player.color !== gameState.currentTurn) return player;
+    return {
+      ...player,
+      timeLeft: remainingTime(gameState.timeControl, player.timeLeft, player.movesMade + 1, turnStartedAt, now)
+    };
+  };
+
   const currentPlayer = getCurrentPlayer();
   const opponentPlayer = getOpponentPlayer();
-  const canMove = !gameOver;
+  const canMove = !gameOver && !computerToMove && !paused;
+  // Only a player, not the computer, can seal a move
+  const canSeal = !computer || gameState.currentTurn !== computer.color;
+  // Against the computer only the player's own moves can be taken back
+  const humanPlayer = gameState.computer &&
+    (gameState.playerA.color === gameState.computer.color ? gameState.playerB : gameState.playerA);
+  const canTakeBack = !gameOver && (humanPlayer ? humanPlayer.movesMade > 0 : gameState.moves.length > 0);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black p-4">
@@ -175,7 +559,30 @@ const Game = () => {
         <GameControls
           onFlipBoard={() => setIsFlipped(!isFlipped)}
           onResign={handleResign}
+          onAbort={handleAbort}
+          canAbort={!gameOver && canAbort(gameState.moves.length)}
           onGoHome={() => navigate('/')}
+          onDownloadPgn={handleDownloadPgn}
+          onCopyPgn={handleCopyPgn}
+          onTakeBack={handleTakeBack}
+          canTakeBack={canTakeBack}
+          onOfferDraw={handleOfferDraw}
+          canOfferDraw={!gameOver && gameState.moves.length > 0}
+          drawClaims={gameOver ? [] : claimableDraws(positionHistory(gameState))}
+          onClaimDraw={handleClaimDraw}
+          moveInput={settings.moveInput}
+          onMoveInputChange={(moveInput) => updateSettings({ moveInput })}
+          casualUndo={settings.casualUndo}
+          onCasualUndoChange={(casualUndo) => updateSettings({ casualUndo })}
+          liveEvalBar={settings.liveEvalBar}
+          onLiveEvalBarChange={(liveEvalBar) => updateSettings({ liveEvalBar })}
+          reloadClock={settings.reloadClock}
+          onReloadClockChange={(reloadClock) => updateSettings({ reloadClock })}
+          isPaused={paused}
+          onTogglePause={handleTogglePause}
+          canPause={!gameOver && !sealing}
+          onAdjourn={() => setAdjournDialogOpen(true)}
+          canAdjourn={!gameOver && !sealing}
         />
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -183,39 +590,155 @@ const Game = () => {
           <div className="space-y-4">
             {opponentPlayer && (
               <PlayerInfo
-                player={opponentPlayer}
+                player={withLiveClock(opponentPlayer)}
                 isCurrentTurn={gameState.currentTurn === opponentPlayer.color}
+                isThinking={thinking && opponentPlayer.color === computer?.color}
+                checks={checks?.[opponentPlayer.color]}
                 position="top"
               />
             )}
             
             {currentPlayer && (
               <PlayerInfo
-                player={currentPlayer}
+                player={withLiveClock(currentPlayer)}
                 isCurrentTurn={gameState.currentTurn === currentPlayer.color}
+                isThinking={thinking && currentPlayer.color === computer?.color}
+                checks={checks?.[currentPlayer.color]}
                 position="bottom"
               />
             )}
+
+            {reviewing && gameOver && (
+              <GameReview
+                startFen={standardFen(variant, startFen)}
+                moves={reviewMoves}
+                evaluations={evaluations}
+                whiteName={playersByColor(gameState).white.name}
+                blackName={playersByColor(gameState).black.name}
+                currentPly={viewPly ?? gameState.moves.length - 1}
+                onSelectPly={(ply) => setViewPly(ply === gameState.moves.length - 1 ? null : ply)}
+                onShowResult={() => setReviewing(false)}
+              />
+            )}
+
+            <MoveList
+              moves={gameState.moves.map(move => move.san)}
+              currentPly={viewPly ?? gameState.moves.length - 1}
+              onSelectPly={(ply) => setViewPly(ply === gameState.moves.length - 1 ? null : ply)}
+              isLive={viewPly === null}
+              onBackToLive={() => setViewPly(null)}
+              startFen={startFen}
+            />
           </div>
 
           {/* Chess Board */}
           <div className="lg:col-span-2">
-            <div className="bg-gray-800/30 p-6 rounded-xl backdrop-blur-lg border border-gray-700 shadow-2xl">
-              <ChessBoard
-                game={game}
-                onMove={makeMove}
-                isFlipped={isFlipped}
-                canMove={canMove && gameState.currentTurn === currentPlayer?.color}
-                currentPlayerColor={currentPlayer?.color || 'white'}
-              />
+            {sealing && (
+              <div className="mb-3 flex items-center justify-between gap-3 rounded-lg border border-amber-700 bg-amber-900/40 px-4 py-2 text-sm text-amber-100">
+                <span className="flex items-center gap-2">
+                  <Lock className="w-4 h-4" />
+                  {currentPlayer?.name}, make the move to seal. It stays hidden until the game resumes.
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setSealing(false)}
+                  className="h-7 text-amber-100 hover:bg-amber-800/60 hover:text-white"
+                >
+                  Cancel
+                </Button>
+              </div>
+            )}
+            <div className="relative">
+              <div
+                className={`bg-gray-800/30 p-6 rounded-xl backdrop-blur-lg border border-gray-700 shadow-2xl flex gap-3 transition-all duration-300 ${
+                  paused ? 'blur-lg pointer-events-none select-none' : ''
+                }`}
+                aria-hidden={paused}
+              >
+                {showEvalBar && <EvalBar score={evaluation} isFlipped={isFlipped} />}
+                <div className="flex-1 min-w-0">
+                  <ChessBoard
+                    game={displayedGame}
+                    onMove={sealing ? handleSealMove : makeMove}
+                    isFlipped={isFlipped}
+                    canMove={canMove && gameState.currentTurn === currentPlayer?.color}
+                    currentPlayerColor={currentPlayer?.color || 'white'}
+                    moveInput={settings.moveInput}
+                    readOnly={viewPly !== null}
+                  />
+                </div>
+              </div>
+
+              {/* The position stays hidden until play resumes */}
+              {paused && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-4">
+                  <p className="text-2xl font-bold text-white">Game paused</p>
+                  <Button
+                    onClick={handleTogglePause}
+                    className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                  >
+                    <Play className="w-4 h-4 mr-2" />
+                    Resume
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
         </div>
       </div>
 
+      <AdjournDialog
+        open={adjournDialogOpen && !gameOver}
+        sealingPlayer={canSeal ? currentPlayer?.name ?? null : null}
+        onAdjourn={() => {
+          setAdjournDialogOpen(false);
+          handleAdjourn();
+        }}
+        onSeal={() => {
+          setAdjournDialogOpen(false);
+          setViewPly(null);
+          if (paused) handleTogglePause();
+          setSealing(true);
+        }}
+        onCancel={() => setAdjournDialogOpen(false)}
+      />
+
+      {/* The player on move decides whether the last move may be taken back */}
+      <OfferDialog
+        open={takebackRequested && !gameOver && gameState.moves.length > 0}
+        title="Take-back request"
+        description={`${opponentPlayer?.name} would like to take back ${
+          gameState.moves[gameState.moves.length - 1]?.san
+        }. ${currentPlayer?.name}, do you accept?`}
+        onAccept={() => {
+          setTakebackRequested(false);
+          takeBack();
+        }}
+        onDecline={() => {
+          setTakebackRequested(false);
+          toast.info('Take-back declined');
+        }}
+      />
+
+      {/* A draw offer made after moving is answered by the player on move */}
+      <OfferDialog
+        open={drawOffered && !gameOver}
+        title="Draw offer"
+        description={`${opponentPlayer?.name} offers a draw. ${currentPlayer?.name}, do you accept?`}
+        onAccept={() => {
+          setDrawOffered(false);
+          endInDraw('agreement');
+        }}
+        onDecline={() => {
+          setDrawOffered(false);
+          toast.info('Draw offer declined');
+        }}
+      />
+
       {/* Game Over Modal */}
       <AnimatePresence>
-        {gameOver && (
+        {gameOver && !reviewing && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -227,13 +750,13 @@ const Game = () => {
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.5, opacity: 0 }}
               className={`p-8 rounded-2xl max-w-md w-full text-center border ${
-                gameOver.type === 'checkmate' 
+                gameOver.winner
                   ? 'bg-gradient-to-br from-red-900/90 to-red-800/90 border-red-600' 
                   : 'bg-gradient-to-br from-gray-800/90 to-gray-700/90 border-gray-600'
               } backdrop-blur-lg shadow-2xl`}
             >
               <div className="mb-6">
-                {gameOver.type === 'checkmate' ? (
+                {gameOver.winner ? (
                   <Crown className="w-16 h-16 mx-auto text-yellow-400 mb-4" />
                 ) : (
                   <div className="w-16 h-16 mx-auto mb-4 bg-gray-500 rounded-full flex items-center justify-center">
@@ -241,12 +764,46 @@ const Game = () => {
                   </div>
                 )}
                 <h2 className="text-3xl font-bold text-white mb-2">
-                  {gameOver.type === 'checkmate' ? 'Checkmate!' : 'Draw!'}
+                  {resultTitle(gameOver)}
                 </h2>
                 <p className="text-gray-200 text-lg">{gameOver.message}</p>
               </div>
               
               <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <Button
+                    onClick={handleDownloadPgn}
+                    variant="outline"
+                    className="bg-gray-800/80 border-gray-600 text-gray-200 hover:bg-gray-700 transition-all duration-200"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Download PGN
+                  </Button>
+                  <Button
+                    onClick={handleCopyPgn}
+                    variant="outline"
+                    className="bg-gray-800/80 border-gray-600 text-gray-200 hover:bg-gray-700 transition-all duration-200"
+                  >
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy PGN
+                  </Button>
+                </div>
+                <Button
+                  onClick={() => setReviewing(true)}
+                  disabled={gameState.moves.length === 0}
+                  className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 transition-all duration-200"
+                >
+                  <GraduationCap className="w-4 h-4 mr-2" />
+                  Review Game
+                </Button>
+                <Button
+                  onClick={() => navigate('/analysis', { state: { pgn: gameStateToPgn(gameState) } })}
+                  variant="outline"
+                  className="w-full bg-gray-800/80 border-gray-600 text-gray-200 hover:bg-gray-700 transition-all duration-200"
+                >
+                  <Microscope className="w-4 h-4 mr-2" />
+                  Analyze Game
+                </Button>
                 <Button
                   onClick={handleNewGame}
                   className="w-full bg-gray-700 hover:bg-gray-600 text-white border border-gray-600 transition-all duration-200"
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Home, History as HistoryIcon, Play, Trash2 } from 'lucide-react';
+import {
+  ArchivedGame,
+  ResultFilter,
+  deleteArchivedGame,
+  filterArchivedGames,
+  listArchivedGames
+} from '@/lib/game-archive';
+import { gameStateToPgn } from '@/lib/game-state';
+import { formatTimeControl } from '@/lib/time-control';
+import { VARIANT_NAMES } from '@/lib/variants';
+
+const RESULT_OPTIONS: { value: ResultFilter; label: string }[] = [
+  { value: 'all', label: 'Any result' },
+  { value: 'white', label: 'White won' },
+  { value: 'black', label: 'Black won' },
+  { value: 'draw', label: 'Draw' },
+  { value: 'unfinished', label: 'Unfinished' }
+];
+
+const History = () => {
+  const navigate = useNavigate();
+  const [games, setGames] = useState<ArchivedGame[] | null>(null);
+  const [player, setPlayer] = useState('');
+  const [date, setDate] = useState('');
+  const [result, setResult] = useState<ResultFilter>('all');
+  const [opening, setOpening] = useState('');
+
+  useEffect(() => {
+    listArchivedGames()
+      .then(setGames)
+      .catch(error => {
+        console.error('Failed to load archive:', error);
+        toast.error('Could not load past games');
+        setGames([]);
+      });
+  }, []);
+
+  const shownGames = useMemo(
+    () => filterArchivedGames(games ?? [], { player, date, result, opening }),
+    [games, player, date, result, opening]
+  );
+
+  const handleDelete = async (game: ArchivedGame) => {
+    try {
+      await deleteArchivedGame(game.id);
+      setGames(prev => prev && prev.filter(entry => entry.id !== game.id));
+      toast.success('Game deleted');
+    } catch (error) {
+      console.error('Failed to delete game:', error);
+      toast.error('Could not delete game');
+    }
+  };
+
+  const navButtonClass = "bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200";
+  const inputClass = "bg-gray-800/50 border-gray-600 text-white placeholder:text-gray-500";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            className={navButtonClass}
+          >
+            <Home className="w-4 h-4 mr-2" />
+            Home
+          </Button>
+          <h1 className="text-3xl font-bold text-white bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+            Past Games
+          </h1>
+          <div className="w-24" />
+        </div>
+
+        <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="playerFilter" className="text-gray-200 text-sm">Player</Label>
+              <Input
+                id="playerFilter"
+                value={player}
+                onChange={(e) => setPlayer(e.target.value)}
+                placeholder="Any player"
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dateFilter" className="text-gray-200 text-sm">Date</Label>
+              <Input
+                id="dateFilter"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-200 text-sm">Result</Label>
+              <Select value={result} onValueChange={(value) => setResult(value as ResultFilter)}>
+                <SelectTrigger className="bg-gray-800/50 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESULT_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="openingFilter" className="text-gray-200 text-sm">Opening</Label>
+              <Input
+                id="openingFilter"
+                value={opening}
+                onChange={(e) => setOpening(e.target.value)}
+                placeholder="Name or ECO code"
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </Card>
+
+        <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl">
+          {games === null ? (
+            <p className="text-gray-400 text-sm">Loading...</p>
+          ) : shownGames.length === 0 ? (
+            <p className="text-gray-400 text-sm flex items-center gap-2">
+              <HistoryIcon className="w-4 h-4" />
+              {games.length === 0 ? 'Games you play will be listed here' : 'No games match your search'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-gray-700 hover:bg-transparent">
+                  <TableHead className="text-gray-400">Date</TableHead>
+                  <TableHead className="text-gray-400">Players</TableHead>
+                  <TableHead className="text-gray-400">Result</TableHead>
+                  <TableHead className="text-gray-400">Opening</TableHead>
+                  <TableHead className="text-gray-400">Moves</TableHead>
+                  <TableHead className="text-gray-400">Time</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shownGames.map(game => (
+                  <TableRow key={game.id} className="border-gray-800 hover:bg-gray-800/50">
+                    <TableCell className="text-gray-300 whitespace-nowrap">
+                      {new Date(game.startedAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-gray-100">
+                      {game.white} <span className="text-gray-500">vs</span> {game.black}
+                    </TableCell>
+                    <TableCell className="text-gray-100 font-mono">{game.result}</TableCell>
+                    <TableCell className="text-gray-300">
+                      {game.opening ?? (game.state.variant ? VARIANT_NAMES[game.state.variant] : '–')}
+                    </TableCell>
+                    <TableCell className="text-gray-300">{Math.ceil(game.state.moves.length / 2)}</TableCell>
+                    <TableCell className="text-gray-300">{formatTimeControl(game.state.timeControl)}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => navigate('/replay', { state: { pgn: gameStateToPgn(game.state) } })}
+                          className={`h-8 ${navButtonClass}`}
+                        >
+                          <Play className="w-3 h-3 mr-1" />
+                          Replay
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDelete(game)}
+                          className="h-8 bg-gray-800/80 border-gray-700 text-gray-300 hover:bg-red-900/60"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,43 +1,104 @@
 
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Crown, Timer, Users } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Crown, Timer, Users, FileText, Cpu, Microscope, History, Moon, Lock, Play, Shuffle, Dices, LayoutGrid, X } from 'lucide-react';
+import TimeControlPicker from '@/components/TimeControlPicker';
+import { DEFAULT_TIME_CONTROL, initialTime } from '@/lib/time-control';
+import { GameState, createGameId, playersByColor, saveCheckpoint } from '@/lib/game-state';
+import { AdjournedGame, listAdjournedGames, takeAdjournedGame } from '@/lib/adjournment';
+import { DEFAULT_ENGINE_LEVEL, ENGINE_LEVELS, engineLevel } from '@/lib/engine/difficulty';
+import { GameVariant, VARIANT_NAMES, VARIANT_RULES, variantStartFen } from '@/lib/variants';
+import { CHESS960_POSITION_COUNT, chess960BackRank, randomChess960Position } from '@/lib/chess960';
+
+type GameMode = 'humans' | 'computer';
+type ColorChoice = 'white' | 'black' | 'random';
+
+// The board editor hands over a custom start position through router state
+export interface SetupLocationState {
+  fen?: string;
+}
+
+// Reads a Chess960 position number typed by the player; empty means a random position
+const parseChess960Position = (text: string): number | null => {
+  if (!text.trim()) return null;
+  const number = Number(text);
+  return Number.isInteger(number) && number >= 0 && number < CHESS960_POSITION_COUNT ? number : NaN;
+};
 
 const Index = () => {
+  const [mode, setMode] = useState<GameMode>('humans');
   const [playerA, setPlayerA] = useState('');
   const [playerB, setPlayerB] = useState('');
-  const [selectedTimer, setSelectedTimer] = useState(10);
+  const [colorChoice, setColorChoice] = useState<ColorChoice>('random');
+  const [level, setLevel] = useState(DEFAULT_ENGINE_LEVEL);
+  const [timeControl, setTimeControl] = useState(DEFAULT_TIME_CONTROL);
+  const [variant, setVariant] = useState<GameVariant>('standard');
+  const [chess960Position, setChess960Position] = useState('');
+  const location = useLocation();
+  const [customFen, setCustomFen] = useState(() => (location.state as SetupLocationState | null)?.fen ?? null);
+  const [adjournedGames] = useState<AdjournedGame[]>(listAdjournedGames);
   const navigate = useNavigate();
 
+  const vsComputer = mode === 'computer';
+  const chosenPosition = parseChess960Position(chess960Position);
+  const validPosition = !!customFen || variant !== 'chess960' || !Number.isNaN(chosenPosition);
+  const canStart = validPosition && (vsComputer ? !!playerA.trim() : !!playerA.trim() && !!playerB.trim());
+
   const handleStartGame = () => {
-    if (!playerA.trim() || !playerB.trim()) {
+    if (!canStart) {
       return;
     }
 
-    // Random color assignment
-    const isPlayerAWhite = Math.random() < 0.5;
+    // Random color assignment unless the player chose a side against the computer
+    const isPlayerAWhite = vsComputer && colorChoice !== 'random'
+      ? colorChoice === 'white'
+      : Math.random() < 0.5;
+    const computerColor = isPlayerAWhite ? 'black' : 'white';
     
-    const gameState = {
+    const gameState: GameState = {
+      id: createGameId(),
       playerA: {
         name: playerA.trim(),
         color: isPlayerAWhite ? 'white' : 'black',
-        timeLeft: selectedTimer * 60 // Convert to seconds
+        timeLeft: initialTime(timeControl),
+        movesMade: 0
       },
       playerB: {
-        name: playerB.trim(),
-        color: isPlayerAWhite ? 'black' : 'white',
-        timeLeft: selectedTimer * 60
+        name: vsComputer ? `Computer (${engineLevel(level).label})` : playerB.trim(),
+        color: computerColor,
+        timeLeft: initialTime(timeControl),
+        movesMade: 0
       },
-      currentTurn: 'white'
+      currentTurn: customFen?.split(' ')[1] === 'b' ? 'black' : 'white',
+      timeControl,
+      moves: [],
+      takebacks: [],
+      startedAt: Date.now(),
+      ...(vsComputer && { computer: { color: computerColor, level } }),
+      ...(customFen && { startFen: customFen }),
+      ...(!customFen && variant !== 'standard' && {
+        variant,
+        startFen: variantStartFen(variant, chosenPosition ?? randomChess960Position())
+      })
     };
 
-    // Store in sessionStorage for the game page
-    sessionStorage.setItem('chessGameState', JSON.stringify(gameState));
+    // Checkpoint the game for the game page
+    saveCheckpoint({ state: gameState, turnElapsed: 0, takebackRequested: false, drawOffered: false });
+    navigate('/game');
+  };
+
+  // The game picks up where it stopped, starting with any sealed move
+  const handleResumeGame = (id: string) => {
+    const adjourned = takeAdjournedGame(id);
+    if (!adjourned) return;
+    saveCheckpoint({ ...adjourned.checkpoint, sealedMove: adjourned.sealedMove });
     navigate('/game');
   };
 
@@ -95,10 +156,26 @@ const Index = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-6">
+                <ToggleGroup
+                  type="single"
+                  value={mode}
+                  onValueChange={(value) => value && setMode(value as GameMode)}
+                  className="grid grid-cols-2"
+                >
+                  <ToggleGroupItem value="humans" className="text-gray-300 data-[state=on]:bg-gray-700 data-[state=on]:text-white">
+                    <Users className="w-4 h-4 mr-2" />
+                    Two players
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="computer" className="text-gray-300 data-[state=on]:bg-gray-700 data-[state=on]:text-white">
+                    <Cpu className="w-4 h-4 mr-2" />
+                    Play vs computer
+                  </ToggleGroupItem>
+                </ToggleGroup>
+
                 <div className="space-y-4">
                   <div className="space-y-2">
                     <Label htmlFor="playerA" className="text-gray-200 font-medium">
-                      Player A
+                      {vsComputer ? 'Your name' : 'Player A'}
                     </Label>
                     <Input
                       id="playerA"
@@ -110,50 +187,138 @@ const Index = () => {
                     />
                   </div>
                   
-                  <div className="space-y-2">
-                    <Label htmlFor="playerB" className="text-gray-200 font-medium">
-                      Player B
-                    </Label>
-                    <Input
-                      id="playerB"
-                      type="text"
-                      placeholder="Enter player name"
-                      value={playerB}
-                      onChange={(e) => setPlayerB(e.target.value)}
-                      className="bg-gray-800/50 border-gray-600 text-white placeholder:text-gray-500 focus:border-blue-400 focus:ring-blue-400/20"
-                    />
-                  </div>
+                  {vsComputer ? (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label className="text-gray-200 font-medium">Your pieces</Label>
+                        <Select value={colorChoice} onValueChange={(value) => setColorChoice(value as ColorChoice)}>
+                          <SelectTrigger className="bg-gray-800/50 border-gray-600 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="white">White</SelectItem>
+                            <SelectItem value="black">Black</SelectItem>
+                            <SelectItem value="random">Random</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-gray-200 font-medium">Difficulty</Label>
+                        <Select value={String(level)} onValueChange={(value) => setLevel(Number(value))}>
+                          <SelectTrigger className="bg-gray-800/50 border-gray-600 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ENGINE_LEVELS.map(entry => (
+                              <SelectItem key={entry.level} value={String(entry.level)}>
+                                {entry.level}. {entry.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="playerB" className="text-gray-200 font-medium">
+                        Player B
+                      </Label>
+                      <Input
+                        id="playerB"
+                        type="text"
+                        placeholder="Enter player name"
+                        value={playerB}
+                        onChange={(e) => setPlayerB(e.target.value)}
+                        className="bg-gray-800/50 border-gray-600 text-white placeholder:text-gray-500 focus:border-blue-400 focus:ring-blue-400/20"
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-3">
                   <Label className="text-gray-200 font-medium flex items-center gap-2">
                     <Timer className="w-4 h-4" />
-                    Timer Duration
+                    Time Control
                   </Label>
-                  <div className="grid grid-cols-2 gap-3">
-                    <Button
-                      variant={selectedTimer === 5 ? "default" : "outline"}
-                      onClick={() => setSelectedTimer(5)}
-                      className={`${
-                        selectedTimer === 5
-                          ? 'bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700'
-                          : 'bg-gray-800/50 hover:bg-gray-700 text-gray-200 border-gray-600'
-                      } transition-all duration-200`}
-                    >
-                      5 Minutes
-                    </Button>
-                    <Button
-                      variant={selectedTimer === 10 ? "default" : "outline"}
-                      onClick={() => setSelectedTimer(10)}
-                      className={`${
-                        selectedTimer === 10
-                          ? 'bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700'
-                          : 'bg-gray-800/50 hover:bg-gray-700 text-gray-200 border-gray-600'
-                      } transition-all duration-200`}
-                    >
-                      10 Minutes
-                    </Button>
-                  </div>
+                  <TimeControlPicker value={timeControl} onChange={setTimeControl} />
+                </div>
+
+                <div className="space-y-3">
+                  <Label className="text-gray-200 font-medium flex items-center gap-2">
+                    <Shuffle className="w-4 h-4" />
+                    Variant
+                  </Label>
+                  {customFen ? (
+                    <div className="flex items-center justify-between gap-3 rounded-lg bg-gray-800/50 px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-gray-100 text-sm">Custom start position</p>
+                        <p className="text-gray-400 text-xs font-mono truncate">{customFen}</p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setCustomFen(null)}
+                        aria-label="Use the standard start position"
+                        className="h-7 text-gray-300 hover:text-white hover:bg-gray-700"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <>
+                      <ToggleGroup
+                        type="single"
+                        value={variant}
+                        onValueChange={(value) => value && setVariant(value as GameVariant)}
+                        className="grid grid-cols-2"
+                      >
+                        {(Object.keys(VARIANT_NAMES) as GameVariant[]).map(value => (
+                          <ToggleGroupItem
+                            key={value}
+                            value={value}
+                            className="text-gray-300 data-[state=on]:bg-gray-700 data-[state=on]:text-white"
+                          >
+                            {VARIANT_NAMES[value]}
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
+                      {VARIANT_RULES[variant] && (
+                        <p className="text-xs text-gray-400">{VARIANT_RULES[variant]}</p>
+                      )}
+                      {variant === 'chess960' && (
+                        <div className="space-y-2">
+                          <div className="flex gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              max={CHESS960_POSITION_COUNT - 1}
+                              placeholder="Random start position"
+                              value={chess960Position}
+                              onChange={(e) => setChess960Position(e.target.value)}
+                              aria-label="Chess960 position number"
+                              className="bg-gray-800/50 border-gray-600 text-white placeholder:text-gray-500 focus:border-blue-400 focus:ring-blue-400/20"
+                            />
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={() => setChess960Position(String(randomChess960Position()))}
+                              className="bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700"
+                            >
+                              <Dices className="w-4 h-4 mr-2" />
+                              Roll
+                            </Button>
+                          </div>
+                          <p className="text-xs text-gray-400">
+                            {Number.isNaN(chosenPosition)
+                              ? `Choose a position from 0 to ${CHESS960_POSITION_COUNT - 1}`
+                              : chosenPosition === null
+                                ? 'A random position is drawn when the game starts'
+                                : <>Back rank: <span className="font-mono text-gray-200">{chess960BackRank(chosenPosition)}</span></>}
+                          </p>
+                        </div>
+                      )}
+                    </>
+                  )}
                 </div>
 
                 <motion.div
@@ -162,7 +327,7 @@ const Index = () => {
                 >
                   <Button
                     onClick={handleStartGame}
-                    disabled={!playerA.trim() || !playerB.trim()}
+                    disabled={!canStart}
                     className="w-full bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white font-semibold py-3 text-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
                   >
                     Start Game
@@ -172,13 +337,87 @@ const Index = () => {
             </Card>
           </motion.div>
 
+          {adjournedGames.length > 0 && (
+            <motion.div variants={itemVariants} className="mt-6">
+              <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 shadow-2xl">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-white text-lg flex items-center gap-2">
+                    <Moon className="w-5 h-5" />
+                    Adjourned games
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {adjournedGames.map(({ checkpoint, sealedMove, adjournedAt }) => {
+                    const { white, black } = playersByColor(checkpoint.state);
+                    return (
+                      <div
+                        key={checkpoint.state.id}
+                        className="flex items-center justify-between gap-3 rounded-lg bg-gray-800/50 px-3 py-2"
+                      >
+                        <div className="min-w-0">
+                          <p className="text-gray-100 truncate">{white.name} vs {black.name}</p>
+                          <p className="text-gray-400 text-xs flex items-center gap-1">
+                            Move {Math.floor(checkpoint.state.moves.length / 2) + 1}, adjourned {new Date(adjournedAt).toLocaleString()}
+                            {sealedMove && <Lock className="w-3 h-3 ml-1" aria-label="Sealed move" />}
+                          </p>
+                        </div>
+                        <Button
+                          size="sm"
+                          onClick={() => handleResumeGame(checkpoint.state.id)}
+                          className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                        >
+                          <Play className="w-3 h-3 mr-1" />
+                          Resume
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           <motion.div
             variants={itemVariants}
             className="text-center mt-8 text-gray-500"
           >
             <p className="text-sm">
-              Players will be randomly assigned white and black pieces
+              {vsComputer
+                ? 'The computer plays on the same clock, taking longer at higher levels'
+                : 'Players will be randomly assigned white and black pieces'}
             </p>
+            <Button
+              variant="link"
+              onClick={() => navigate('/replay')}
+              className="text-gray-400 hover:text-gray-200 mt-2"
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              Replay a game from PGN
+            </Button>
+            <Button
+              variant="link"
+              onClick={() => navigate('/analysis')}
+              className="text-gray-400 hover:text-gray-200 mt-2"
+            >
+              <Microscope className="w-4 h-4 mr-2" />
+              Analysis board
+            </Button>
+            <Button
+              variant="link"
+              onClick={() => navigate('/editor')}
+              className="text-gray-400 hover:text-gray-200 mt-2"
+            >
+              <LayoutGrid className="w-4 h-4 mr-2" />
+              Board editor
+            </Button>
+            <Button
+              variant="link"
+              onClick={() => navigate('/history')}
+              className="text-gray-400 hover:text-gray-200 mt-2"
+            >
+              <History className="w-4 h-4 mr-2" />
+              Past games
+            </Button>
           </motion.div>
         </motion.div>
       </div>
@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Home,
+  RotateCcw,
+  Upload,
+  FileText,
+  ChevronsLeft,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsRight,
+  Play,
+  Pause,
+  Microscope
+} from 'lucide-react';
+import ChessBoard from '@/components/ChessBoard';
+import MoveTreeView from '@/components/MoveTreeView';
+import { PromotionPiece } from '@/components/PromotionDialog';
+import { useSettings } from '@/hooks/use-settings';
+import { PgnGame, parsePgn, writePgn } from '@/lib/pgn';
+import {
+  MoveTree,
+  TreePath,
+  createMoveTree,
+  fenAt,
+  childrenAt,
+  lineEndPath,
+  addMove,
+  promoteToMainline,
+  deleteNode,
+  annotateNode,
+  moveTreeFromPgn,
+  moveTreeToPgn
+} from '@/lib/move-tree';
+import { createPosition, standardFen, variantFromPgn } from '@/lib/variants';
+
+const AUTOPLAY_SPEEDS = [
+  { label: '0.5s', ms: 500 },
+  { label: '1s', ms: 1000 },
+  { label: '2s', ms: 2000 },
+  { label: '3s', ms: 3000 }
+];
+
+const describeGame = (game: PgnGame, index: number) => {
+  const white = game.headers.White ?? '?';
+  const black = game.headers.Black ?? '?';
+  return `${index + 1}. ${white} vs ${black} (${game.result})`;
+};
+
+const Replay = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { settings } = useSettings();
+  const [pgnText, setPgnText] = useState('');
+  const [games, setGames] = useState<PgnGame[]>([]);
+  const [selectedGame, setSelectedGame] = useState(0);
+  const [tree, setTree] = useState<MoveTree>(() => createMoveTree());
+  const [path, setPath] = useState<TreePath>([]);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1000);
+
+  const loadGame = useCallback((game: PgnGame) => {
+    try {
+      setTree(moveTreeFromPgn(game));
+    } catch (error) {
+      console.error('Failed to replay game:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not replay game');
+      setTree(createMoveTree(game.startFen, variantFromPgn(game.headers)));
+    }
+    setPath([]);
+    setIsPlaying(false);
+  }, []);
+
+  const loadPgn = useCallback((text: string) => {
+    const parsed = parsePgn(text);
+    if (parsed.length === 0) {
+      toast.error('No games found in PGN');
+      return;
+    }
+    setGames(parsed);
+    setSelectedGame(0);
+    loadGame(parsed[0]);
+    toast.success(parsed.length === 1 ? 'Game loaded' : `${parsed.length} games loaded`);
+  }, [loadGame]);
+
+  // Games can be handed over from other pages through router state
+  useEffect(() => {
+    const pgn = (location.state as { pgn?: string } | null)?.pgn;
+    if (pgn) {
+      setPgnText(pgn);
+      loadPgn(pgn);
+    }
+  }, [location.state, loadPgn]);
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    file.text().then(text => {
+      setPgnText(text);
+      loadPgn(text);
+    });
+    event.target.value = '';
+  };
+
+  const handleSelectGame = (value: string) => {
+    const index = Number(value);
+    setSelectedGame(index);
+    loadGame(games[index]);
+  };
+
+  const game = games[selectedGame];
+  const [nextMove] = childrenAt(tree, path);
+
+  const goBack = () => setPath(path.slice(0, -1));
+  const goForward = () => {
+    if (nextMove) setPath([...path, nextMove.id]);
+  };
+
+  // Step through the current line with the arrow keys
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLTextAreaElement || event.target instanceof HTMLInputElement) {
+        return;
+      }
+      if (event.key === 'ArrowLeft') {
+        setIsPlaying(false);
+        setPath(path.slice(0, -1));
+      } else if (event.key === 'ArrowRight') {
+        const [next] = childrenAt(tree, path);
+        if (next) setPath([...path, next.id]);
+      } else if (event.key === 'Home' || event.key === 'ArrowUp') {
+        setIsPlaying(false);
+        setPath([]);
+      } else if (event.key === 'End' || event.key === 'ArrowDown') {
+        setPath(lineEndPath(tree, path));
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tree, path]);
+
+  // Autoplay follows the current line one move per tick and stops at its end
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (!nextMove) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => setPath([...path, nextMove.id]), speed);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, path, nextMove, speed]);
+
+  const fen = fenAt(tree, path);
+  const displayedGame = useMemo(() => createPosition(tree.variant, fen), [tree.variant, fen]);
+  // Analysis of a single position uses standard rules, so Chess960 castling rights are left behind
+  const analysisFen = standardFen(tree.variant, fen);
+
+  // Moves played on the board are added to the game as variations
+  const handleMove = (from: string, to: string, promotion?: PromotionPiece) => {
+    const played = addMove(tree, path, { from, to, promotion });
+    if (!played) return false;
+
+    setIsPlaying(false);
+    setTree(played.tree);
+    setPath(played.path);
+    return true;
+  };
+
+  const handleDelete = (target: TreePath) => {
+    setTree(deleteNode(tree, target));
+    setPath(target.slice(0, -1));
+  };
+
+  const handleCopyPgn = async () => {
+    try {
+      await navigator.clipboard.writeText(writePgn(moveTreeToPgn(tree, game?.headers ?? {}, game?.result ?? '*')));
+      toast.success('PGN copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy PGN:', error);
+      toast.error('Could not copy PGN');
+    }
+  };
+
+  const navButtonClass = "bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700 transition-all duration-200";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            className={navButtonClass}
+          >
+            <Home className="w-4 h-4 mr-2" />
+            Home
+          </Button>
+          <h1 className="text-3xl font-bold text-white bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+            Game Replay
+          </h1>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => navigate('/analysis', { state: { fen: analysisFen } })}
+              variant="outline"
+              className={navButtonClass}
+            >
+              <Microscope className="w-4 h-4 mr-2" />
+              Analyze
+            </Button>
+            <Button
+              onClick={() => setIsFlipped(!isFlipped)}
+              variant="outline"
+              className={navButtonClass}
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-4">
+            <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl space-y-3">
+              <Label htmlFor="pgnInput" className="text-gray-200 font-medium flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                PGN
+              </Label>
+              <Textarea
+                id="pgnInput"
+                value={pgnText}
+                onChange={(e) => setPgnText(e.target.value)}
+                placeholder="Paste one or more games in PGN format"
+                className="h-32 bg-gray-800/50 border-gray-600 text-white placeholder:text-gray-500 font-mono text-xs"
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  onClick={() => loadPgn(pgnText)}
+                  disabled={!pgnText.trim()}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  Load
+                </Button>
+                <Button asChild variant="outline" className={`${navButtonClass} cursor-pointer`}>
+                  <label>
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload
+                    <input type="file" accept=".pgn,text/plain" className="hidden" onChange={handleFileUpload} />
+                  </label>
+                </Button>
+              </div>
+
+              {games.length > 1 && (
+                <Select value={String(selectedGame)} onValueChange={handleSelectGame}>
+                  <SelectTrigger className="bg-gray-800/50 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {games.map((g, index) => (
+                      <SelectItem key={index} value={String(index)}>{describeGame(g, index)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </Card>
+
+            {game && (
+              <Card className="backdrop-blur-lg bg-gray-900/60 border-gray-700 p-4 shadow-xl">
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                  {Object.entries(game.headers).map(([name, value]) => (
+                    <React.Fragment key={name}>
+                      <dt className="text-gray-400">{name}</dt>
+                      <dd className="text-gray-200 break-all">{value}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+              </Card>
+            )}
+
+            <MoveTreeView
+              tree={tree}
+              path={path}
+              onSelect={(selected) => {
+                setIsPlaying(false);
+                setPath(selected);
+              }}
+              onPromote={(target) => setTree(promoteToMainline(tree, target))}
+              onDelete={handleDelete}
+              onAnnotate={(target, changes) => setTree(annotateNode(tree, target, changes))}
+              onCopyPgn={game ? handleCopyPgn : undefined}
+            />
+          </div>
+
+          <div className="lg:col-span-2 space-y-4">
+            <div className="bg-gray-800/30 p-6 rounded-xl backdrop-blur-lg border border-gray-700 shadow-2xl">
+              <ChessBoard
+                game={displayedGame}
+                onMove={handleMove}
+                isFlipped={isFlipped}
+                canMove={!!game && !displayedGame.isGameOver()}
+                currentPlayerColor={displayedGame.turn() === 'w' ? 'white' : 'black'}
+                moveInput={settings.moveInput}
+              />
+            </div>
+
+            <div className="flex items-center justify-center gap-2">
+              <Button variant="outline" className={navButtonClass} onClick={() => { setIsPlaying(false); setPath([]); }}>
+                <ChevronsLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" className={navButtonClass} onClick={() => { setIsPlaying(false); goBack(); }}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                onClick={() => setIsPlaying(!isPlaying)}
+                disabled={tree.children.length === 0}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </Button>
+              <Button variant="outline" className={navButtonClass} onClick={goForward}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" className={navButtonClass} onClick={() => setPath(lineEndPath(tree, path))}>
+                <ChevronsRight className="w-4 h-4" />
+              </Button>
+              <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+                <SelectTrigger className="w-24 bg-gray-800/50 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTOPLAY_SPEEDS.map(option => (
+                    <SelectItem key={option.ms} value={String(option.ms)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Replay;